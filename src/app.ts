@@ -0,0 +1,102 @@
+import { WebhookEvent } from "@line/bot-sdk";
+import cors from "cors";
+import express, { Express } from "express";
+import { ApiKey } from "./domain/api-keys.js";
+import { RateLimiter } from "./infrastructure/rate-limit.js";
+import { WeatherWorkflowRuns } from "./mastra/workflows/runs.js";
+import { assignCorrelationId, logRequests } from "./routes/context.js";
+import { createErrorHandler, notFoundHandler } from "./routes/errors.js";
+import { createHealthRouter } from "./routes/health.js";
+import { createLineRouter } from "./routes/line.js";
+import {
+  createApiKeyAuth,
+  createRateLimit,
+  createSchedulerAuth,
+} from "./routes/middleware.js";
+import { createSchedulerRouter } from "./routes/scheduler.js";
+import { createMetricsRouter, traceRequests } from "./routes/telemetry.js";
+import { createWeatherRouter } from "./routes/weather.js";
+import { createWorkflowsRouter } from "./routes/workflows.js";
+import { AlertNotifier } from "./scheduler/alerts.js";
+import { BriefingScheduler } from "./scheduler/index.js";
+import { HealthChecks } from "./services/health.js";
+import { WeatherService } from "./services/weather.js";
+
+export type AppDeps = {
+  weather: WeatherService;
+  workflowRuns: WeatherWorkflowRuns;
+  briefingScheduler: BriefingScheduler;
+  alertNotifier: AlertNotifier;
+  health: HealthChecks;
+  handleLineEvent: (event: WebhookEvent) => Promise<unknown>;
+  lineChannelSecret: string;
+  // No keys means API key auth is off
+  apiKeys: readonly ApiKey[];
+  httpRateLimiter: RateLimiter;
+  schedulerSecret?: string;
+  trustProxy?: string | number;
+};
+
+// The Express app with every route; the server wires in the real
+// dependencies and tests pass stand-ins
+export function createApp(deps: AppDeps): Express {
+  const app = express();
+
+  // Middleware
+  app.use(cors());
+  app.use(assignCorrelationId);
+  app.use(traceRequests);
+  app.use(logRequests);
+
+  // Behind a load balancer the client IP comes from X-Forwarded-For
+  if (deps.trustProxy !== undefined) {
+    app.set("trust proxy", deps.trustProxy);
+  }
+
+  const requireApiKey = createApiKeyAuth(deps.apiKeys);
+  // Every weather request can start a paid LLM generation. Routes limit
+  // before checking keys, so guessing keys is throttled too.
+  const rateLimit = createRateLimit(deps.httpRateLimiter);
+
+  app.get("/", (req, res) => {
+    res.json({ status: "ok", message: "Mastra Weather Agent API" });
+  });
+  app.use(createHealthRouter({ health: deps.health }));
+  app.use(createMetricsRouter());
+
+  // The webhook signature is checked against the raw body, so it goes
+  // before the JSON parser
+  app.use(
+    createLineRouter({
+      channelSecret: deps.lineChannelSecret,
+      handleEvent: deps.handleLineEvent,
+    })
+  );
+
+  // Apply JSON middleware for other routes (not LINE webhook)
+  app.use(express.json());
+
+  app.use(
+    createWeatherRouter({ weather: deps.weather, requireApiKey, rateLimit })
+  );
+  app.use(
+    createWorkflowsRouter({
+      workflowRuns: deps.workflowRuns,
+      requireApiKey,
+      rateLimit,
+    })
+  );
+  app.use(
+    createSchedulerRouter({
+      briefingScheduler: deps.briefingScheduler,
+      alertNotifier: deps.alertNotifier,
+      requireSchedulerSecret: createSchedulerAuth(deps.schedulerSecret),
+    })
+  );
+
+  // Anything unmatched or thrown ends up as a problem+json response
+  app.use(notFoundHandler);
+  app.use(createErrorHandler());
+
+  return app;
+}
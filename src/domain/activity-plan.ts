@@ -0,0 +1,186 @@
+import { z } from "zod";
+import {
+  Units,
+  formatTemperature as formatInUnit,
+  formatWindSpeed,
+  metricUnits,
+} from "./preferences.js";
+
+// Schemas for the structured activity plan produced by the agents
+export const weatherSummarySchema = z.object({
+  conditions: z.string().describe("Brief description based on actual data"),
+  temperature: z
+    .number()
+    .describe("Current temperature, or the daily high for forecasts, in °C"),
+  temperatureLow: z
+    .number()
+    .optional()
+    .describe("Daily low in °C, for forecasts"),
+  feelsLike: z.number().optional().describe("Apparent temperature in °C"),
+  humidity: z.number().optional().describe("Relative humidity in %"),
+  windSpeed: z.number().optional().describe("Wind speed in km/h"),
+  windGust: z.number().optional().describe("Wind gusts in km/h"),
+  precipitationChance: z
+    .number()
+    .optional()
+    .describe("Chance of precipitation in %"),
+});
+
+export const outdoorActivitySchema = z.object({
+  name: z.string(),
+  description: z
+    .string()
+    .describe("Brief description including specific location/route"),
+  timing: z.string().describe("Specific time range, e.g. 07:00-09:00"),
+  note: z.string().describe("Relevant weather consideration"),
+});
+
+export const indoorActivitySchema = z.object({
+  name: z.string(),
+  description: z
+    .string()
+    .describe("Brief description including specific venue"),
+  idealFor: z
+    .string()
+    .describe("Weather condition that would trigger this alternative"),
+});
+
+export const dayPlanSchema = z.object({
+  date: z.string().describe("Date in YYYY-MM-DD format"),
+  weatherSummary: weatherSummarySchema,
+  morningActivities: z.array(outdoorActivitySchema),
+  afternoonActivities: z.array(outdoorActivitySchema),
+  indoorAlternatives: z.array(indoorActivitySchema),
+  specialConsiderations: z.array(z.string()),
+});
+
+export const activityPlanSchema = z.object({
+  location: z.string(),
+  days: z.array(dayPlanSchema).min(1),
+});
+
+export type WeatherSummary = z.infer<typeof weatherSummarySchema>;
+export type OutdoorActivity = z.infer<typeof outdoorActivitySchema>;
+export type IndoorActivity = z.infer<typeof indoorActivitySchema>;
+export type DayPlan = z.infer<typeof dayPlanSchema>;
+export type ActivityPlan = z.infer<typeof activityPlanSchema>;
+
+// Text rendering (the emoji layout the agents used to produce directly)
+function formatTemperature(celsius: number, units: Units): string {
+  const celsiusText = formatInUnit(celsius, "celsius");
+  const fahrenheitText = formatInUnit(celsius, "fahrenheit");
+  return units.temperatureUnit === "fahrenheit"
+    ? `${fahrenheitText}/${celsiusText}`
+    : `${celsiusText}/${fahrenheitText}`;
+}
+
+function formatDate(date: string): string {
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) {
+    return date;
+  }
+  return parsed.toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function renderWeatherSummary(summary: WeatherSummary, units: Units): string[] {
+  const temperature =
+    summary.temperatureLow !== undefined
+      ? `${formatTemperature(summary.temperatureLow, units)} to ${formatTemperature(summary.temperature, units)}`
+      : formatTemperature(summary.temperature, units);
+
+  const lines = [
+    "🌡️ WEATHER SUMMARY",
+    `• Conditions: ${summary.conditions}`,
+    `• Temperature: ${temperature}`,
+  ];
+
+  if (summary.feelsLike !== undefined) {
+    lines.push(`• Feels Like: ${formatTemperature(summary.feelsLike, units)}`);
+  }
+  if (summary.humidity !== undefined) {
+    lines.push(`• Humidity: ${summary.humidity}%`);
+  }
+  if (summary.windSpeed !== undefined) {
+    const gusts =
+      summary.windGust !== undefined
+        ? ` with gusts up to ${formatWindSpeed(summary.windGust, units.windSpeedUnit)}`
+        : "";
+    lines.push(
+      `• Wind: ${formatWindSpeed(summary.windSpeed, units.windSpeedUnit)}${gusts}`
+    );
+  }
+  if (summary.precipitationChance !== undefined) {
+    lines.push(`• Precipitation: ${summary.precipitationChance}% chance`);
+  }
+
+  return lines;
+}
+
+function renderOutdoorActivities(
+  heading: string,
+  activities: OutdoorActivity[]
+): string[] {
+  if (activities.length === 0) {
+    return [];
+  }
+  return [
+    "",
+    heading,
+    "Outdoor:",
+    ...activities.flatMap((activity) => [
+      `• ${activity.name} - ${activity.description}`,
+      `  Best timing: ${activity.timing}`,
+      `  Note: ${activity.note}`,
+    ]),
+  ];
+}
+
+function renderDayPlan(location: string, day: DayPlan, units: Units): string {
+  const lines = [
+    `📅 ${formatDate(day.date)} - ${location}`,
+    "═══════════════════════════",
+    "",
+    ...renderWeatherSummary(day.weatherSummary, units),
+    ...renderOutdoorActivities("🌅 MORNING ACTIVITIES", day.morningActivities),
+    ...renderOutdoorActivities(
+      "🌞 AFTERNOON ACTIVITIES",
+      day.afternoonActivities
+    ),
+  ];
+
+  if (day.indoorAlternatives.length > 0) {
+    lines.push(
+      "",
+      "🏠 INDOOR ALTERNATIVES",
+      ...day.indoorAlternatives.flatMap((activity) => [
+        `• ${activity.name} - ${activity.description}`,
+        `  Ideal for: ${activity.idealFor}`,
+      ])
+    );
+  }
+
+  if (day.specialConsiderations.length > 0) {
+    lines.push(
+      "",
+      "⚠️ SPECIAL CONSIDERATIONS",
+      ...day.specialConsiderations.map((item) => `• ${item}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function renderActivityPlan(
+  plan: ActivityPlan,
+  units: Units = metricUnits
+): string {
+  return plan.days
+    .map((day) => renderDayPlan(plan.location, day, units))
+    .join("\n\n");
+}
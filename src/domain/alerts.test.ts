@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AlertForecastDay,
+  alertKey,
+  detectAlerts,
+  formatAlerts,
+} from "./alerts.js";
+
+const calmDay: AlertForecastDay = {
+  date: "2025-06-14",
+  weatherCode: 1,
+  minTemp: 18,
+  apparentTempMax: 26,
+  windGustMax: 20,
+  precipitationSum: 0,
+  precipitationChance: 10,
+};
+
+const day = (overrides: Partial<AlertForecastDay>) => ({
+  ...calmDay,
+  ...overrides,
+});
+
+describe("detectAlerts", () => {
+  it("stays quiet on a calm day", () => {
+    expect(detectAlerts([calmDay])).toEqual([]);
+  });
+
+  it("needs both a likely and a heavy rain", () => {
+    expect(
+      detectAlerts([day({ precipitationChance: 90, precipitationSum: 10 })])
+    ).toEqual([]);
+    expect(
+      detectAlerts([day({ precipitationChance: 50, precipitationSum: 50 })])
+    ).toEqual([]);
+    expect(
+      detectAlerts([day({ precipitationChance: 90, precipitationSum: 85 })])
+    ).toMatchObject([{ kind: "heavy-rain", severity: "severe" }]);
+  });
+
+  it("grades each rule by its thresholds", () => {
+    const kindsAndSeverities = (overrides: Partial<AlertForecastDay>) =>
+      detectAlerts([day(overrides)]).map(({ kind, severity }) => ({
+        kind,
+        severity,
+      }));
+
+    expect(kindsAndSeverities({ weatherCode: 96 })).toEqual([
+      { kind: "hail", severity: "warning" },
+    ]);
+    expect(kindsAndSeverities({ windGustMax: 95 })).toEqual([
+      { kind: "high-wind", severity: "severe" },
+    ]);
+    expect(kindsAndSeverities({ apparentTempMax: 34 })).toEqual([
+      { kind: "heat", severity: "warning" },
+    ]);
+    expect(kindsAndSeverities({ minTemp: -12 })).toEqual([
+      { kind: "freezing", severity: "warning" },
+    ]);
+    expect(kindsAndSeverities({ minTemp: 0 })).toEqual([
+      { kind: "freezing", severity: "advisory" },
+    ]);
+  });
+
+  it("checks every day against custom thresholds", () => {
+    const alerts = detectAlerts(
+      [calmDay, day({ date: "2025-06-15", windGustMax: 45 })],
+      {
+        rainChance: 80,
+        rainSum: { warning: 30, severe: 80 },
+        windGust: { warning: 40, severe: 70 },
+        heat: { warning: 33, severe: 38 },
+        freezing: { advisory: 0, warning: -10 },
+      }
+    );
+
+    expect(alerts).toMatchObject([
+      { kind: "high-wind", date: "2025-06-15", severity: "warning" },
+    ]);
+  });
+});
+
+describe("alertKey", () => {
+  it("identifies an alert by place, day and kind", () => {
+    const [alert] = detectAlerts([day({ weatherCode: 99 })]);
+
+    expect(alertKey("Tokyo, Japan", alert)).toBe(
+      "Tokyo, Japan:2025-06-14:hail"
+    );
+  });
+});
+
+describe("formatAlerts", () => {
+  it("lists each alert under the place", () => {
+    const alerts = detectAlerts([day({ windGustMax: 64.6 })]);
+
+    expect(formatAlerts("Tokyo, Japan", alerts)).toBe(
+      "⚠️ Weather alerts for Tokyo, Japan\n• [WARNING] 2025-06-14: Wind gusts up to 65 km/h"
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+export const alertSeveritySchema = z.enum(["advisory", "warning", "severe"]);
+
+export const weatherAlertSchema = z.object({
+  kind: z.enum(["heavy-rain", "hail", "high-wind", "heat", "freezing"]),
+  severity: alertSeveritySchema,
+  date: z.string(),
+  message: z.string(),
+});
+
+export type AlertSeverity = z.infer<typeof alertSeveritySchema>;
+export type WeatherAlert = z.infer<typeof weatherAlertSchema>;
+
+// Subset of the daily forecast the rules look at
+export type AlertForecastDay = {
+  date: string;
+  weatherCode: number;
+  minTemp: number;
+  apparentTempMax: number;
+  windGustMax: number;
+  precipitationSum: number;
+  precipitationChance: number | null;
+};
+
+export type AlertThresholds = {
+  rainChance: number;
+  rainSum: { warning: number; severe: number };
+  windGust: { warning: number; severe: number };
+  heat: { warning: number; severe: number };
+  freezing: { advisory: number; warning: number };
+};
+
+export const defaultAlertThresholds: AlertThresholds = {
+  rainChance: 80,
+  rainSum: { warning: 30, severe: 80 },
+  windGust: { warning: 60, severe: 90 },
+  heat: { warning: 33, severe: 38 },
+  freezing: { advisory: 0, warning: -10 },
+};
+
+// WMO codes for thunderstorms with hail
+const HAIL_CODES = [96, 99];
+
+type Rule = (
+  day: AlertForecastDay,
+  thresholds: AlertThresholds
+) => WeatherAlert | undefined;
+
+const heavyRain: Rule = (day, { rainChance, rainSum }) => {
+  if ((day.precipitationChance ?? 0) < rainChance) {
+    return undefined;
+  }
+  if (day.precipitationSum < rainSum.warning) {
+    return undefined;
+  }
+  return {
+    kind: "heavy-rain",
+    severity: day.precipitationSum >= rainSum.severe ? "severe" : "warning",
+    date: day.date,
+    message: `Heavy rain expected: ${day.precipitationSum} mm (${day.precipitationChance}% chance)`,
+  };
+};
+
+const hail: Rule = (day) =>
+  HAIL_CODES.includes(day.weatherCode)
+    ? {
+        kind: "hail",
+        severity: day.weatherCode === 99 ? "severe" : "warning",
+        date: day.date,
+        message: "Thunderstorms with hail expected",
+      }
+    : undefined;
+
+const highWind: Rule = (day, { windGust }) =>
+  day.windGustMax >= windGust.warning
+    ? {
+        kind: "high-wind",
+        severity: day.windGustMax >= windGust.severe ? "severe" : "warning",
+        date: day.date,
+        message: `Wind gusts up to ${Math.round(day.windGustMax)} km/h`,
+      }
+    : undefined;
+
+const heat: Rule = (day, { heat }) =>
+  day.apparentTempMax >= heat.warning
+    ? {
+        kind: "heat",
+        severity: day.apparentTempMax >= heat.severe ? "severe" : "warning",
+        date: day.date,
+        message: `Heat index up to ${Math.round(day.apparentTempMax)}°C`,
+      }
+    : undefined;
+
+const freezing: Rule = (day, { freezing }) =>
+  day.minTemp <= freezing.advisory
+    ? {
+        kind: "freezing",
+        severity: day.minTemp <= freezing.warning ? "warning" : "advisory",
+        date: day.date,
+        message: `Freezing temperatures down to ${Math.round(day.minTemp)}°C`,
+      }
+    : undefined;
+
+const rules: Rule[] = [heavyRain, hail, highWind, heat, freezing];
+
+export function detectAlerts(
+  days: AlertForecastDay[],
+  thresholds: AlertThresholds = defaultAlertThresholds
+): WeatherAlert[] {
+  return days.flatMap((day) =>
+    rules
+      .map((rule) => rule(day, thresholds))
+      .filter((alert): alert is WeatherAlert => alert !== undefined)
+  );
+}
+
+// Identifies one event, so repeated checks don't notify twice
+export function alertKey(location: string, alert: WeatherAlert): string {
+  return `${location}:${alert.date}:${alert.kind}`;
+}
+
+export function formatAlerts(location: string, alerts: WeatherAlert[]): string {
+  return [
+    `⚠️ Weather alerts for ${location}`,
+    ...alerts.map(
+      (alert) =>
+        `• [${alert.severity.toUpperCase()}] ${alert.date}: ${alert.message}`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,136 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import {
+  Result,
+  UnauthorizedError,
+  ValidationError,
+  err,
+  errors,
+  ok,
+} from "../utils/result.js";
+
+// read: weather lookups and workflow run status, suggest: suggestions, the
+// suggestion stream and workflow runs, admin: everything
+export const API_KEY_SCOPES = ["read", "suggest", "admin"] as const;
+
+export const apiKeySchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function validateApiKeys(
+  value: unknown,
+  source: string
+): Result<ApiKey[], ValidationError> {
+  const parsed = z.array(apiKeySchema).safeParse(value);
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return err(
+      errors.validation(
+        `Invalid API key in ${source}: ${issue.path.join(".")} ${issue.message}`,
+        source
+      )
+    );
+  }
+
+  // Names identify callers in logs, so they have to be unique too
+  for (const field of ["name", "key"] as const) {
+    const values = parsed.data.map((apiKey) => apiKey[field]);
+    const duplicate = values.find(
+      (value, index) => values.indexOf(value) !== index
+    );
+    if (duplicate !== undefined) {
+      return err(
+        errors.validation(
+          field === "name"
+            ? `Duplicate API key name '${duplicate}' in ${source}`
+            : `Duplicate API key in ${source}`,
+          source
+        )
+      );
+    }
+  }
+
+  return ok(parsed.data);
+}
+
+// "name:key:scope,scope" entries separated by semicolons,
+// e.g. "web:abc...:read,suggest;ops:def...:admin"
+export function parseApiKeyList(
+  text: string,
+  source = "API_KEYS"
+): Result<ApiKey[], ValidationError> {
+  const entries = text
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [name = "", key = "", scopes = ""] = entry.split(":");
+      return {
+        name: name.trim(),
+        key: key.trim(),
+        scopes: scopes
+          .split(",")
+          .map((scope) => scope.trim())
+          .filter((scope) => scope.length > 0),
+      };
+    });
+
+  return validateApiKeys(entries, source);
+}
+
+// A JSON array of { name, key, scopes } objects
+export function parseApiKeyFile(
+  text: string,
+  source: string
+): Result<ApiKey[], ValidationError> {
+  try {
+    return validateApiKeys(JSON.parse(text), source);
+  } catch {
+    return err(errors.validation(`${source} is not valid JSON`, source));
+  }
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+}
+
+// Compare digests so the check takes the same time however much matches
+export function sameSecret(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export function authenticate(
+  apiKeys: readonly ApiKey[],
+  presented: string | undefined,
+  scope: ApiKeyScope
+): Result<ApiKey, UnauthorizedError> {
+  if (!presented) {
+    return err(errors.unauthorized("API key is required"));
+  }
+
+  const apiKey = apiKeys.find((candidate) =>
+    sameSecret(candidate.key, presented)
+  );
+
+  if (!apiKey) {
+    return err(errors.unauthorized("Invalid API key"));
+  }
+
+  if (!hasScope(apiKey, scope)) {
+    return err(
+      errors.unauthorized(
+        `API key '${apiKey.name}' lacks the ${scope} scope`,
+        scope
+      )
+    );
+  }
+
+  return ok(apiKey);
+}
@@ -0,0 +1,94 @@
+import { AppError } from "../utils/result.js";
+
+// Stable identifiers clients can branch on; renaming one breaks them
+export type ErrorCode = AppError["kind"];
+
+export type ErrorClassification = {
+  status: number;
+  code: ErrorCode;
+  title: string;
+  // Safe to show an end user, e.g. in a LINE reply
+  userMessage: string;
+};
+
+const titles: Record<ErrorCode, string> = {
+  validation: "Invalid request",
+  "not-found": "Not found",
+  "ambiguous-location": "Ambiguous location",
+  unauthorized: "Unauthorized",
+  "rate-limited": "Too many requests",
+  "upstream-timeout": "Upstream timeout",
+  "upstream-unavailable": "Upstream unavailable",
+  "weather-api": "Weather service error",
+  "llm-failure": "Language model failure",
+  infrastructure: "Internal error",
+};
+
+function statusOf(error: AppError): number {
+  switch (error.kind) {
+    case "validation":
+      return 400;
+    case "not-found":
+      return 404;
+    case "ambiguous-location":
+      return 409;
+    case "unauthorized":
+      // A known key without the scope is forbidden rather than unauthenticated
+      return error.scope ? 403 : 401;
+    case "rate-limited":
+      return 429;
+    case "upstream-timeout":
+      return 504;
+    case "upstream-unavailable":
+      return 503;
+    case "weather-api":
+      // Outages pass through; anything else upstream rejected is our bug
+      return error.statusCode && error.statusCode >= 500
+        ? error.statusCode
+        : 502;
+    case "llm-failure":
+      return 502;
+    case "infrastructure":
+      return 500;
+  }
+}
+
+function userMessageOf(error: AppError): string {
+  switch (error.kind) {
+    case "validation":
+    case "unauthorized":
+    case "ambiguous-location":
+      return error.message;
+    case "not-found":
+      return error.resource === "location" && error.id
+        ? `I couldn't find a place called "${error.id}".`
+        : `I couldn't find the ${error.resource}.`;
+    case "rate-limited":
+      return error.retryAfterMs
+        ? `${error.message}. Please try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+        : `${error.message}. Please try again shortly.`;
+    case "upstream-timeout":
+      return "The weather service is taking too long to answer. Please try again in a moment.";
+    case "upstream-unavailable":
+    case "weather-api":
+      return "The weather service isn't available right now. Please try again later.";
+    case "llm-failure":
+      return error.refused
+        ? "I couldn't put together an answer for that. Try asking about the weather in a specific city."
+        : "The assistant isn't available right now. Please try again in a moment.";
+    case "infrastructure":
+      return "Something went wrong on our side. Please try again later.";
+  }
+}
+
+// The one mapping from errors to statuses and messages, shared by the HTTP
+// problem responses and the LINE replies
+export function classifyError(error: AppError): ErrorClassification {
+  const status = statusOf(error);
+  return {
+    status,
+    code: error.kind,
+    title: status === 403 ? "Forbidden" : titles[error.kind],
+    userMessage: userMessageOf(error),
+  };
+}
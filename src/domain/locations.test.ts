@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { isErr, unwrap, unwrapErr } from "../utils/result.js";
+import {
+  LocationCandidate,
+  chooseLocation,
+  locationContextFor,
+  parseLocationQuery,
+} from "./locations.js";
+
+const place = (
+  name: string,
+  admin1: string,
+  countryCode: string,
+  population?: number
+): LocationCandidate => ({
+  name,
+  admin1,
+  country: countryCode === "JP" ? "Japan" : "United States",
+  countryCode,
+  population,
+  latitude: 0,
+  longitude: 0,
+});
+
+const springfields = [
+  place("Springfield", "Missouri", "US", 169176),
+  place("Springfield", "Massachusetts", "US", 155929),
+  place("Springfield", "Illinois", "US", 114394),
+];
+
+describe("parseLocationQuery", () => {
+  it("splits off qualifiers in either script", () => {
+    expect(parseLocationQuery("Portland, Maine")).toEqual({
+      name: "Portland",
+      qualifiers: ["Maine"],
+    });
+    expect(parseLocationQuery("府中、広島")).toEqual({
+      name: "府中",
+      qualifiers: ["広島"],
+    });
+  });
+});
+
+describe("chooseLocation", () => {
+  it("picks a place that is much bigger than the rest", () => {
+    const result = chooseLocation("Tokyo", [
+      place("Tokyo", "Tokyo", "JP", 8336599),
+      place("Tokyo", "Papua", "PG", 1000),
+    ]);
+
+    expect(unwrap(result).admin1).toBe("Tokyo");
+  });
+
+  it("asks when no candidate clearly wins", () => {
+    const result = chooseLocation("Springfield", springfields);
+
+    expect(isErr(result)).toBe(true);
+    const error = unwrapErr(result);
+    expect(error.kind).toBe("ambiguous-location");
+    if (error.kind === "ambiguous-location") {
+      expect(error.candidates.map((candidate) => candidate.admin1)).toEqual([
+        "Missouri",
+        "Massachusetts",
+        "Illinois",
+      ]);
+    }
+  });
+
+  it("follows a region qualifier", () => {
+    const result = chooseLocation("Springfield, Illinois", springfields);
+
+    expect(unwrap(result).admin1).toBe("Illinois");
+  });
+
+  it("prefers the user's country", () => {
+    const candidates = [
+      place("Fuchu", "Tokyo", "JP", 260000),
+      place("Fuchu", "Oregon", "US", 300000),
+    ];
+
+    const result = chooseLocation("Fuchu", candidates, { countryCode: "jp" });
+
+    expect(unwrap(result).countryCode).toBe("JP");
+  });
+
+  it("reports a place that doesn't exist", () => {
+    const error = unwrapErr(chooseLocation("Atlantis", []));
+
+    expect(error).toMatchObject({ kind: "not-found", id: "Atlantis" });
+  });
+
+  it("offers a place listed twice only once", () => {
+    const result = chooseLocation("Springfield", [
+      ...springfields,
+      place("Springfield", "Missouri", "US", 160000),
+    ]);
+
+    const error = unwrapErr(result);
+    expect(
+      error.kind === "ambiguous-location" && error.candidates
+    ).toHaveLength(3);
+  });
+});
+
+describe("locationContextFor", () => {
+  it("adds no hints for users without saved preferences", () => {
+    expect(locationContextFor(undefined)).toEqual({});
+  });
+
+  it("uses the saved country, then the one the language implies", () => {
+    expect(locationContextFor({ language: "en", country: "GB" })).toEqual({
+      language: "en",
+      countryCode: "GB",
+    });
+    expect(locationContextFor({ language: "ja", country: null })).toEqual({
+      language: "ja",
+      countryCode: "JP",
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import {
+  AppError,
+  LocationCandidate,
+  Result,
+  ValidationError,
+  err,
+  errors,
+  ok,
+} from "../utils/result.js";
+import { UserPreferences } from "./preferences.js";
+
+export type { LocationCandidate };
+
+export const coordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+
+// Where the user wants weather for: a place name, or a point with an
+// optional name to show for it
+export type PlaceQuery =
+  | { kind: "name"; name: string }
+  | { kind: "coordinates"; coordinates: Coordinates; name?: string };
+
+// Returns undefined when neither coordinate was given
+export function parseCoordinates(
+  latitude: unknown,
+  longitude: unknown
+): Result<Coordinates, ValidationError> | undefined {
+  if (latitude === undefined && longitude === undefined) {
+    return undefined;
+  }
+
+  const toNumber = (value: unknown) =>
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+  const parsed = coordinatesSchema.safeParse({
+    latitude: toNumber(latitude),
+    longitude: toNumber(longitude),
+  });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path[0] === "latitude" ? "lat" : "lon";
+    return err(
+      errors.validation(
+        field === "lat"
+          ? "lat must be a number between -90 and 90"
+          : "lon must be a number between -180 and 180",
+        field
+      )
+    );
+  }
+
+  return ok(parsed.data);
+}
+
+export function formatCoordinates({
+  latitude,
+  longitude,
+}: Coordinates): string {
+  return `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? "N" : "S"}, ${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? "E" : "W"}`;
+}
+
+// Text for prompts and logs
+export function describePlaceQuery(place: PlaceQuery): string {
+  if (place.kind === "name") {
+    return place.name;
+  }
+  const { latitude, longitude } = place.coordinates;
+  return `latitude ${latitude}, longitude ${longitude}${place.name ? ` (${place.name})` : ""}`;
+}
+
+// Hints used to search and rank geocoding candidates
+export type LocationContext = {
+  language?: string;
+  countryCode?: string;
+};
+
+// A 10x population gap is enough to pick the bigger place without asking
+const AMBIGUITY_MARGIN = 1;
+const COUNTRY_BONUS = 2;
+const QUALIFIER_BONUS = 5;
+const MAX_CANDIDATES = 5;
+
+export type LocationQuery = {
+  name: string;
+  qualifiers: string[];
+};
+
+// "Portland, Maine" / "府中、広島" -> name plus region or country qualifiers
+export function parseLocationQuery(text: string): LocationQuery {
+  const [name, ...qualifiers] = text
+    .split(/[,、，]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  return { name: name ?? text.trim(), qualifiers };
+}
+
+export function describeLocation(candidate: LocationCandidate): string {
+  return [candidate.name, candidate.admin1, candidate.country]
+    .filter((part, i, parts) => part && parts.indexOf(part) === i)
+    .join(", ");
+}
+
+function matchesQualifier(
+  candidate: LocationCandidate,
+  qualifier: string
+): boolean {
+  const q = qualifier.toLowerCase();
+  return [candidate.admin1, candidate.country, candidate.countryCode].some(
+    (value) => value !== undefined && value.toLowerCase() === q
+  );
+}
+
+function score(
+  candidate: LocationCandidate,
+  query: LocationQuery,
+  context: LocationContext
+): number {
+  let total = Math.log10((candidate.population ?? 0) + 1);
+  if (
+    context.countryCode &&
+    candidate.countryCode?.toUpperCase() === context.countryCode.toUpperCase()
+  ) {
+    total += COUNTRY_BONUS;
+  }
+  total +=
+    query.qualifiers.filter((q) => matchesQualifier(candidate, q)).length *
+    QUALIFIER_BONUS;
+  return total;
+}
+
+// Pick the best candidate, or report ambiguity when no candidate clearly wins
+export function chooseLocation(
+  text: string,
+  candidates: LocationCandidate[],
+  context: LocationContext = {}
+): Result<LocationCandidate, AppError> {
+  const query = parseLocationQuery(text);
+  const ranked = candidates
+    .map((candidate) => ({
+      candidate,
+      score: score(candidate, query, context),
+    }))
+    .sort((a, b) => b.score - a.score)
+    // Geocoders list a city and its district separately; offer it once
+    .filter(
+      ({ candidate }, i, all) =>
+        all.findIndex(
+          (other) =>
+            describeLocation(other.candidate) === describeLocation(candidate)
+        ) === i
+    );
+
+  if (ranked.length === 0) {
+    return err(errors.notFound("location", text));
+  }
+
+  const [best, runnerUp] = ranked;
+
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) {
+    return err(
+      errors.ambiguousLocation(
+        text,
+        ranked.slice(0, MAX_CANDIDATES).map(({ candidate }) => candidate)
+      )
+    );
+  }
+
+  return ok(best.candidate);
+}
+
+// Search in the user's language and prefer their saved country, falling
+// back to the country their language implies
+export function locationContextFor(
+  preferences: Pick<UserPreferences, "language" | "country"> | undefined
+): LocationContext {
+  if (!preferences) {
+    return {};
+  }
+  return {
+    language: preferences.language ?? undefined,
+    countryCode:
+      preferences.country ?? (preferences.language === "ja" ? "JP" : undefined),
+  };
+}
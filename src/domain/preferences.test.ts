@@ -0,0 +1,94 @@
+import { describe, expect, it } from "bun:test";
+import { err, errors, ok } from "../utils/result.js";
+import {
+  defaultPreferences,
+  describePreferences,
+  parsePreferenceCommand,
+} from "./preferences.js";
+
+describe("parsePreferenceCommand", () => {
+  it("ignores messages that aren't settings", () => {
+    expect(parsePreferenceCommand("東京の天気")).toBeUndefined();
+    expect(parsePreferenceCommand("set")).toBeUndefined();
+  });
+
+  it("shows the settings", () => {
+    expect(parsePreferenceCommand("設定")).toEqual(ok({ kind: "show" }));
+    expect(parsePreferenceCommand(" Settings ")).toEqual(ok({ kind: "show" }));
+  });
+
+  it("parses each setting", () => {
+    const update = (text: string) => parsePreferenceCommand(text);
+
+    expect(update("ホーム 札幌")).toEqual(
+      ok({ kind: "update", update: { homeCity: "札幌" } })
+    );
+    expect(update("set country jp")).toEqual(
+      ok({ kind: "update", update: { country: "JP" } })
+    );
+    expect(update("set tz america/new_york")).toEqual(
+      ok({ kind: "update", update: { timezone: "America/New_York" } })
+    );
+    expect(update("set units °F")).toEqual(
+      ok({ kind: "update", update: { temperatureUnit: "fahrenheit" } })
+    );
+    expect(update("set wind km/h")).toEqual(
+      ok({ kind: "update", update: { windSpeedUnit: "kmh" } })
+    );
+    expect(update("set lang 英語")).toEqual(
+      ok({ kind: "update", update: { language: "en" } })
+    );
+    expect(update("set interests running、museums kids")).toEqual(
+      ok({
+        kind: "update",
+        update: { interests: ["running", "museums", "kids"] },
+      })
+    );
+  });
+
+  it("explains values it doesn't understand", () => {
+    expect(parsePreferenceCommand("set country Japan")).toEqual(
+      err(
+        errors.validation(
+          "Use a two-letter country code, e.g. 'set country JP'",
+          "country"
+        )
+      )
+    );
+    expect(parsePreferenceCommand("set interests running, golf")).toEqual(
+      err(
+        errors.validation(
+          "Unknown interests: golf. Choose from running, cycling, kids, museums",
+          "interests"
+        )
+      )
+    );
+    expect(parsePreferenceCommand("set timezone Mars/Olympus")).toEqual(
+      err(
+        errors.validation(
+          "Use a timezone name, e.g. 'set timezone America/New_York'",
+          "timezone"
+        )
+      )
+    );
+    expect(parsePreferenceCommand("set colour blue")).toMatchObject(
+      err({ kind: "validation", field: "colour" })
+    );
+  });
+});
+
+describe("describePreferences", () => {
+  it("marks what hasn't been set", () => {
+    expect(describePreferences(defaultPreferences)).toBe(
+      [
+        "Home city: not set",
+        "Country: not set",
+        "Timezone: not set",
+        "Temperature: °C",
+        "Wind speed: km/h",
+        "Language: not set",
+        "Interests: none",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  fromThrowable,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+export const ACTIVITY_INTERESTS = [
+  "running",
+  "cycling",
+  "kids",
+  "museums",
+] as const;
+
+export const userPreferencesSchema = z.object({
+  homeCity: z.string().nullable(),
+  // ISO 3166-1 alpha-2 code used to pick between places with the same name
+  country: z.string().nullable(),
+  // IANA timezone for "today" and "tomorrow"; null means Japan time
+  timezone: z.string().nullable(),
+  temperatureUnit: z.enum(["celsius", "fahrenheit"]),
+  windSpeedUnit: z.enum(["kmh", "mph"]),
+  // null until the user picks one; the agent then answers in the language
+  // they write in
+  language: z.enum(["ja", "en"]).nullable(),
+  interests: z.array(z.enum(ACTIVITY_INTERESTS)),
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+export type ActivityInterest = (typeof ACTIVITY_INTERESTS)[number];
+export type Units = Pick<UserPreferences, "temperatureUnit" | "windSpeedUnit">;
+
+export const metricUnits: Units = {
+  temperatureUnit: "celsius",
+  windSpeedUnit: "kmh",
+};
+
+export const defaultPreferences: UserPreferences = {
+  homeCity: null,
+  country: null,
+  timezone: null,
+  temperatureUnit: "celsius",
+  windSpeedUnit: "kmh",
+  language: null,
+  interests: [],
+};
+
+export type PreferenceCommand =
+  | { kind: "update"; update: Partial<UserPreferences> }
+  | { kind: "show" };
+
+const temperatureUnits: Record<string, UserPreferences["temperatureUnit"]> = {
+  c: "celsius",
+  "°c": "celsius",
+  celsius: "celsius",
+  f: "fahrenheit",
+  "°f": "fahrenheit",
+  fahrenheit: "fahrenheit",
+};
+
+const windSpeedUnits: Record<string, UserPreferences["windSpeedUnit"]> = {
+  kmh: "kmh",
+  "km/h": "kmh",
+  mph: "mph",
+};
+
+const languages: Record<string, UserPreferences["language"]> = {
+  ja: "ja",
+  japanese: "ja",
+  日本語: "ja",
+  en: "en",
+  english: "en",
+  英語: "en",
+};
+
+// Canonical name of a timezone Intl knows, e.g. "asia/tokyo" -> "Asia/Tokyo"
+const parseTimezone = fromThrowable(
+  (value: string) =>
+    new Intl.DateTimeFormat("en", { timeZone: value }).resolvedOptions()
+      .timeZone,
+  (): ValidationError =>
+    errors.validation(
+      "Use a timezone name, e.g. 'set timezone America/New_York'",
+      "timezone"
+    )
+);
+
+function isInterest(value: string): value is ActivityInterest {
+  return (ACTIVITY_INTERESTS as readonly string[]).includes(value);
+}
+
+function parseSetting(
+  key: string,
+  value: string
+): Result<Partial<UserPreferences>, ValidationError> {
+  const normalized = value.toLowerCase();
+
+  switch (key) {
+    case "home":
+      return ok({ homeCity: value });
+    case "country":
+      return /^[a-z]{2}$/i.test(value)
+        ? ok({ country: value.toUpperCase() })
+        : err(
+            errors.validation(
+              "Use a two-letter country code, e.g. 'set country JP'",
+              key
+            )
+          );
+    case "timezone":
+    case "tz": {
+      const timezoneResult = parseTimezone(value);
+      return isErr(timezoneResult)
+        ? timezoneResult
+        : ok({ timezone: unwrap(timezoneResult) });
+    }
+    case "units":
+    case "temp": {
+      const unit = temperatureUnits[normalized];
+      return unit
+        ? ok({ temperatureUnit: unit })
+        : err(errors.validation("Use 'set units c' or 'set units f'", key));
+    }
+    case "wind": {
+      const unit = windSpeedUnits[normalized];
+      return unit
+        ? ok({ windSpeedUnit: unit })
+        : err(errors.validation("Use 'set wind kmh' or 'set wind mph'", key));
+    }
+    case "language":
+    case "lang": {
+      const language = languages[normalized];
+      return language
+        ? ok({ language })
+        : err(
+            errors.validation("Use 'set language ja' or 'set language en'", key)
+          );
+    }
+    case "interests": {
+      const values = normalized
+        .split(/[,、\s]+/)
+        .filter((interest) => interest.length > 0);
+      const unknown = values.filter((interest) => !isInterest(interest));
+      if (unknown.length > 0) {
+        return err(
+          errors.validation(
+            `Unknown interests: ${unknown.join(", ")}. Choose from ${ACTIVITY_INTERESTS.join(", ")}`,
+            key
+          )
+        );
+      }
+      return ok({ interests: values.filter(isInterest) });
+    }
+    default:
+      return err(
+        errors.validation(
+          "Unknown setting. Try 'set home 札幌', 'set country JP', 'set timezone America/New_York', 'set units f', 'set wind mph', 'set language en' or 'set interests running, museums'",
+          key
+        )
+      );
+  }
+}
+
+// Returns undefined when the text is not a settings command at all
+export function parsePreferenceCommand(
+  text: string
+): Result<PreferenceCommand, ValidationError> | undefined {
+  const trimmed = text.trim();
+
+  if (/^(settings|show settings|設定)$/i.test(trimmed)) {
+    return ok({ kind: "show" });
+  }
+
+  const homeMatch = trimmed.match(/^(?:ホーム設定|ホーム)\s+(.+)$/);
+  if (homeMatch) {
+    return ok({ kind: "update", update: { homeCity: homeMatch[1].trim() } });
+  }
+
+  const setMatch = trimmed.match(/^set\s+(\w+)\s+(.+)$/i);
+  if (!setMatch) {
+    return undefined;
+  }
+
+  const result = parseSetting(setMatch[1].toLowerCase(), setMatch[2].trim());
+  if (isErr(result)) {
+    return result;
+  }
+  return ok({ kind: "update", update: unwrap(result) });
+}
+
+export const languageNames: Record<
+  NonNullable<UserPreferences["language"]>,
+  string
+> = {
+  ja: "Japanese",
+  en: "English",
+};
+
+export function describePreferences(preferences: UserPreferences): string {
+  return [
+    `Home city: ${preferences.homeCity ?? "not set"}`,
+    `Country: ${preferences.country ?? "not set"}`,
+    `Timezone: ${preferences.timezone ?? "not set"}`,
+    `Temperature: ${preferences.temperatureUnit === "celsius" ? "°C" : "°F"}`,
+    `Wind speed: ${preferences.windSpeedUnit === "kmh" ? "km/h" : "mph"}`,
+    `Language: ${preferences.language ? languageNames[preferences.language] : "not set"}`,
+    `Interests: ${preferences.interests.length > 0 ? preferences.interests.join(", ") : "none"}`,
+  ].join("\n");
+}
+
+// Unit conversions for rendering metric weather data
+export function formatTemperature(
+  celsius: number,
+  unit: UserPreferences["temperatureUnit"]
+): string {
+  return unit === "fahrenheit"
+    ? `${Math.round((celsius * 9) / 5 + 32)}°F`
+    : `${Math.round(celsius)}°C`;
+}
+
+export function formatWindSpeed(
+  kmh: number,
+  unit: UserPreferences["windSpeedUnit"]
+): string {
+  return unit === "mph"
+    ? `${Math.round(kmh * 0.621371)} mph`
+    : `${Math.round(kmh)} km/h`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "bun:test";
+import { err, errors, ok } from "../utils/result.js";
+import {
+  Subscription,
+  initialSentDate,
+  isDue,
+  parseSubscriptionCommand,
+} from "./subscriptions.js";
+
+describe("parseSubscriptionCommand", () => {
+  it("ignores messages that aren't subscription commands", () => {
+    expect(parseSubscriptionCommand("明日の東京の天気")).toBeUndefined();
+  });
+
+  it("parses Japanese times", () => {
+    expect(parseSubscriptionCommand("毎朝7時に東京の天気")).toEqual(
+      ok({ kind: "subscribe", city: "東京", hour: 7, minute: 0 })
+    );
+    expect(parseSubscriptionCommand("毎朝7時半に大阪の天気")).toEqual(
+      ok({ kind: "subscribe", city: "大阪", hour: 7, minute: 30 })
+    );
+    expect(parseSubscriptionCommand("毎朝6時45分に札幌の天気")).toEqual(
+      ok({ kind: "subscribe", city: "札幌", hour: 6, minute: 45 })
+    );
+  });
+
+  it("parses English commands", () => {
+    expect(parseSubscriptionCommand("subscribe 7:15 Springfield, IL")).toEqual(
+      ok({ kind: "subscribe", city: "Springfield, IL", hour: 7, minute: 15 })
+    );
+    expect(parseSubscriptionCommand("subscriptions")).toEqual(
+      ok({ kind: "list" })
+    );
+    expect(parseSubscriptionCommand("通知解除 3")).toEqual(
+      ok({ kind: "cancel", id: 3 })
+    );
+    expect(parseSubscriptionCommand("unsubscribe 12")).toEqual(
+      ok({ kind: "cancel", id: 12 })
+    );
+  });
+
+  it("rejects times that don't exist", () => {
+    expect(parseSubscriptionCommand("subscribe 25:00 Tokyo")).toEqual(
+      err(errors.validation("Please give a time between 0:00 and 23:59"))
+    );
+  });
+});
+
+describe("isDue", () => {
+  const subscription: Subscription = {
+    id: 1,
+    userId: "U1",
+    city: "Tokyo, Japan",
+    hour: 7,
+    minute: 0,
+    timezone: "Asia/Tokyo",
+    lastSentDate: null,
+  };
+
+  it("is due once the local time has passed", () => {
+    // 06:59 and 07:00 in Tokyo
+    expect(isDue(subscription, new Date("2025-06-13T21:59:00Z"))).toBe(false);
+    expect(isDue(subscription, new Date("2025-06-13T22:00:00Z"))).toBe(true);
+  });
+
+  it("isn't due again the same local day", () => {
+    const sent = { ...subscription, lastSentDate: "2025-06-14" };
+
+    expect(isDue(sent, new Date("2025-06-14T10:00:00Z"))).toBe(false);
+    expect(isDue(sent, new Date("2025-06-14T22:00:00Z"))).toBe(true);
+  });
+});
+
+describe("initialSentDate", () => {
+  const schedule = { hour: 7, minute: 0, timezone: "America/New_York" };
+
+  it("skips today when its time has passed", () => {
+    // 20:00 in New York
+    expect(initialSentDate(schedule, new Date("2025-06-14T00:00:00Z"))).toBe(
+      "2025-06-13"
+    );
+  });
+
+  it("sends today when its time is still to come", () => {
+    // 06:00 in New York
+    expect(
+      initialSentDate(schedule, new Date("2025-06-13T10:00:00Z"))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+export type Subscription = {
+  id: number;
+  userId: string;
+  city: string;
+  hour: number;
+  minute: number;
+  timezone: string;
+  lastSentDate: string | null;
+};
+
+export type SubscriptionCommand =
+  | { kind: "subscribe"; city: string; hour: number; minute: number }
+  | { kind: "list" }
+  | { kind: "cancel"; id: number };
+
+// For cities the geocoder gave no timezone for
+export const DEFAULT_TIMEZONE = "Asia/Tokyo";
+
+function toTime(
+  hourText: string,
+  minuteText: string | undefined
+): Result<{ hour: number; minute: number }, ValidationError> {
+  const hour = Number(hourText);
+  const minute = minuteText === undefined ? 0 : Number(minuteText);
+
+  if (hour > 23 || minute > 59) {
+    return err(errors.validation("Please give a time between 0:00 and 23:59"));
+  }
+  return ok({ hour, minute });
+}
+
+// Returns undefined when the text is not a subscription command at all
+export function parseSubscriptionCommand(
+  text: string
+): Result<SubscriptionCommand, ValidationError> | undefined {
+  const trimmed = text.trim();
+
+  if (/^(subscriptions|通知一覧)$/i.test(trimmed)) {
+    return ok({ kind: "list" });
+  }
+
+  const cancelMatch = trimmed.match(
+    /^(?:unsubscribe|cancel|通知解除)\s*(\d+)$/i
+  );
+  if (cancelMatch) {
+    return ok({ kind: "cancel", id: Number(cancelMatch[1]) });
+  }
+
+  // 毎朝7時に東京の天気 / 毎朝7時半に東京の天気 / 毎朝6時45分に札幌の天気
+  const japaneseMatch = trimmed.match(
+    /^毎朝\s*(\d{1,2})時(?:(\d{1,2})分|(半))?に?(.+?)の天気$/
+  );
+  if (japaneseMatch) {
+    const [, hour, minute, half, city] = japaneseMatch;
+    const timeResult = toTime(hour, half ? "30" : minute);
+    if (isErr(timeResult)) {
+      return timeResult;
+    }
+    return ok({ kind: "subscribe", city: city.trim(), ...unwrap(timeResult) });
+  }
+
+  // subscribe 7:00 Tokyo
+  const englishMatch = trimmed.match(
+    /^subscribe\s+(\d{1,2})(?::(\d{2}))?\s+(.+)$/i
+  );
+  if (englishMatch) {
+    const [, hour, minute, city] = englishMatch;
+    const timeResult = toTime(hour, minute);
+    if (isErr(timeResult)) {
+      return timeResult;
+    }
+    return ok({ kind: "subscribe", city: city.trim(), ...unwrap(timeResult) });
+  }
+
+  return undefined;
+}
+
+// Local calendar date and minutes since midnight in a timezone
+export function localTime(
+  now: Date,
+  timezone: string
+): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "00";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// Due once per local day, as soon as the scheduled time has passed
+export function isDue(subscription: Subscription, now: Date): boolean {
+  const { date, minutes } = localTime(now, subscription.timezone);
+  return (
+    subscription.lastSentDate !== date &&
+    minutes >= subscription.hour * 60 + subscription.minute
+  );
+}
+
+// A subscription made after today's send time starts tomorrow, rather than
+// sending the morning briefing straight away
+export function initialSentDate(
+  schedule: Pick<Subscription, "hour" | "minute" | "timezone">,
+  now: Date
+): string | null {
+  const { date, minutes } = localTime(now, schedule.timezone);
+  return minutes >= schedule.hour * 60 + schedule.minute ? date : null;
+}
+
+export function formatSubscription(subscription: Subscription): string {
+  const minute = String(subscription.minute).padStart(2, "0");
+  return `#${subscription.id} ${subscription.hour}:${minute} ${subscription.city}`;
+}
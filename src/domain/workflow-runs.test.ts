@@ -0,0 +1,28 @@
+import { describe, expect, it } from "bun:test";
+import { errors } from "../utils/result.js";
+import { toStoredError } from "./workflow-runs.js";
+
+describe("toStoredError", () => {
+  it("drops the cause of every kind of error", () => {
+    const cause = new Error("401 from provider for key sk-test-123");
+
+    const stored = [
+      errors.llm("Failed to plan activities", cause),
+      errors.infrastructure("Failed to save run", cause),
+    ].map(toStoredError);
+
+    for (const error of stored) {
+      expect(JSON.parse(JSON.stringify(error))).not.toHaveProperty("cause");
+    }
+    expect(stored[0]).toMatchObject({
+      kind: "llm-failure",
+      message: "Failed to plan activities",
+    });
+  });
+
+  it("keeps errors without a cause as they are", () => {
+    const error = errors.notFound("location", "Atlantis");
+
+    expect(toStoredError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,33 @@
+import { AppError } from "../utils/result.js";
+
+export type WorkflowRunStatus = "running" | "success" | "failed" | "suspended";
+
+export type WorkflowStepRecord = {
+  status: WorkflowRunStatus;
+  output?: unknown;
+  error?: AppError;
+  startedAt?: string;
+  endedAt?: string;
+};
+
+export type WorkflowRunRecord = {
+  id: string;
+  workflowId: string;
+  status: WorkflowRunStatus;
+  input: unknown;
+  steps: Record<string, WorkflowStepRecord>;
+  result: unknown | null;
+  error: AppError | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorkflowRunUpdate = Partial<
+  Pick<WorkflowRunRecord, "status" | "steps" | "result" | "error">
+>;
+
+// Causes are arbitrary thrown values that can hold provider responses or
+// credentials, and rarely survive JSON, so no stored error keeps one
+export function toStoredError(error: AppError): AppError {
+  return "cause" in error ? { ...error, cause: undefined } : error;
+}
@@ -0,0 +1,61 @@
+import { readFileSync } from "node:fs";
+import {
+  ApiKey,
+  parseApiKeyFile,
+  parseApiKeyList,
+  validateApiKeys,
+} from "../domain/api-keys.js";
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  unwrap,
+} from "../utils/result.js";
+import { config } from "./config.js";
+
+export type ApiKeySources = {
+  // API_KEYS
+  list?: string;
+  // API_KEYS_FILE
+  file?: string;
+};
+
+// Keys from API_KEYS and the JSON file at API_KEYS_FILE; none means auth is off
+export function loadApiKeys(
+  sources: ApiKeySources = config.apiKeys
+): Result<ApiKey[], ValidationError> {
+  const keys: ApiKey[] = [];
+
+  if (sources.list) {
+    const listResult = parseApiKeyList(sources.list);
+    if (isErr(listResult)) {
+      return listResult;
+    }
+    keys.push(...unwrap(listResult));
+  }
+
+  if (sources.file) {
+    let text: string;
+    try {
+      text = readFileSync(sources.file, "utf8");
+    } catch {
+      return err(
+        errors.validation(
+          `Could not read API key file ${sources.file}`,
+          "API_KEYS_FILE"
+        )
+      );
+    }
+
+    const fileResult = parseApiKeyFile(text, sources.file);
+    if (isErr(fileResult)) {
+      return fileResult;
+    }
+    keys.push(...unwrap(fileResult));
+  }
+
+  // Catch the same key or name configured in both places
+  return validateApiKeys(keys, "API_KEYS and API_KEYS_FILE");
+}
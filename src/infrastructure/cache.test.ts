@@ -0,0 +1,97 @@
+import { Client } from "@libsql/client";
+import { describe, expect, it } from "bun:test";
+import { isErr, ok, unwrap } from "../utils/result.js";
+import {
+  MINUTE,
+  createCache,
+  createMemoryCacheStore,
+  createSqliteCacheStore,
+} from "./cache.js";
+import { createDatabase } from "./database.js";
+
+describe("createCache", () => {
+  it("shares one load between concurrent lookups", async () => {
+    const cache = createCache(createMemoryCacheStore());
+    let loads = 0;
+    const loader = async () => ok({ maxTemp: 28, load: ++loads });
+
+    const results = await Promise.all([
+      cache.getOrLoad("forecast:tokyo", MINUTE, loader),
+      cache.getOrLoad("forecast:tokyo", MINUTE, loader),
+      cache.getOrLoad("forecast:tokyo", MINUTE, loader),
+    ]);
+
+    expect(loads).toBe(1);
+    expect(results.map(unwrap)).toEqual([
+      { maxTemp: 28, load: 1 },
+      { maxTemp: 28, load: 1 },
+      { maxTemp: 28, load: 1 },
+    ]);
+  });
+
+  it("loads again once the entry has expired", async () => {
+    let time = 0;
+    const cache = createCache(createMemoryCacheStore({ now: () => time }));
+    let loads = 0;
+    const loader = async () => ok(++loads);
+
+    await cache.getOrLoad("forecast:tokyo", MINUTE, loader);
+    time = MINUTE - 1;
+    const fresh = await cache.getOrLoad("forecast:tokyo", MINUTE, loader);
+    time = MINUTE;
+    const expired = await cache.getOrLoad("forecast:tokyo", MINUTE, loader);
+
+    expect(unwrap(fresh)).toBe(1);
+    expect(unwrap(expired)).toBe(2);
+  });
+
+  it("reloads an entry that isn't valid JSON", async () => {
+    const store = createMemoryCacheStore();
+    await store.set("forecast:tokyo", "{not json", 1000);
+    const cache = createCache(store);
+
+    const result = await cache.getOrLoad("forecast:tokyo", 1000, async () =>
+      ok({ maxTemp: 28 })
+    );
+
+    expect(unwrap(result)).toEqual({ maxTemp: 28 });
+    expect(unwrap(await store.get("forecast:tokyo"))).toBe('{"maxTemp":28}');
+  });
+});
+
+describe("createSqliteCacheStore", () => {
+  it("removes expired entries when writing", async () => {
+    const db = createDatabase(":memory:");
+    let time = 0;
+    const store = createSqliteCacheStore(db, () => time);
+
+    await store.set("forecast:tokyo:2025-06-14T06", "{}", MINUTE);
+    time = MINUTE;
+    await store.set("forecast:tokyo:2025-06-14T07", "{}", MINUTE);
+
+    const { rows } = await db.execute("SELECT key FROM cache_entries");
+    expect(rows.map((row) => row.key)).toEqual([
+      "forecast:tokyo:2025-06-14T07",
+    ]);
+  });
+
+  it("retries creating its table after a failure", async () => {
+    const db = createDatabase(":memory:");
+    let down = true;
+    // Unreachable until the first read has failed
+    const flaky = {
+      execute: (...args: Parameters<Client["execute"]>) =>
+        down
+          ? Promise.reject(new Error("database is locked"))
+          : db.execute(...args),
+    } as Client;
+    const store = createSqliteCacheStore(flaky);
+
+    const failed = await store.get("forecast:tokyo");
+    down = false;
+    const retried = await store.get("forecast:tokyo");
+
+    expect(isErr(failed)).toBe(true);
+    expect(isErr(retried)).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { Client } from "@libsql/client";
+import {
+  AppError,
+  Result,
+  errors,
+  fromPromise,
+  fromThrowable,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import { createSchemaInit, db } from "./database.js";
+
+// Key-value store with expiry; values are JSON strings so any backend fits
+export type CacheStore = {
+  get: (key: string) => Promise<Result<string | undefined, AppError>>;
+  set: (
+    key: string,
+    value: string,
+    ttlMs: number
+  ) => Promise<Result<void, AppError>>;
+};
+
+export type Cache = {
+  // Return the cached value, or load it once however many callers ask at once
+  getOrLoad: <T>(
+    key: string,
+    ttlMs: number,
+    load: () => Promise<Result<T, AppError>>
+  ) => Promise<Result<T, AppError>>;
+};
+
+export const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+export type MemoryCacheOptions = {
+  maxEntries?: number;
+  now?: () => number;
+};
+
+export function createMemoryCacheStore(
+  options: MemoryCacheOptions = {}
+): CacheStore {
+  const maxEntries = options.maxEntries ?? 1000;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return ok(undefined);
+      }
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return ok(undefined);
+      }
+      return ok(entry.value);
+    },
+
+    set: async (key, value, ttlMs) => {
+      // Re-insert so the Map keeps entries in write order
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+
+      // Drop the oldest entries once over capacity
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+      return ok(undefined);
+    },
+  };
+}
+
+// Shares the cache between processes through a local SQLite file
+export function createSqliteCacheStore(
+  client: Client,
+  now: () => number = Date.now
+): CacheStore {
+  // Create the table once, on first use
+  const ensureSchema = createSchemaInit(
+    client,
+    `CREATE TABLE IF NOT EXISTS cache_entries (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`,
+    "Failed to create cache table"
+  );
+
+  return {
+    get: async (key) => {
+      const schemaResult = await ensureSchema();
+      if (isErr(schemaResult)) {
+        return schemaResult;
+      }
+      const result = await fromPromise(
+        client.execute({
+          sql: "SELECT value FROM cache_entries WHERE key = ? AND expires_at > ?",
+          args: [key, now()],
+        }),
+        (error): AppError =>
+          errors.infrastructure("Failed to read cache entry", error)
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      const row = unwrap(result).rows[0];
+      return ok(row ? String(row.value) : undefined);
+    },
+
+    set: async (key, value, ttlMs) => {
+      const schemaResult = await ensureSchema();
+      if (isErr(schemaResult)) {
+        return schemaResult;
+      }
+      const time = now();
+      // Keys include the hour, so expired rows are swept here or they'd pile up
+      const result = await fromPromise(
+        client.batch(
+          [
+            {
+              sql: "DELETE FROM cache_entries WHERE expires_at <= ?",
+              args: [time],
+            },
+            {
+              sql: "INSERT OR REPLACE INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?)",
+              args: [key, value, time + ttlMs],
+            },
+          ],
+          "write"
+        ),
+        (error): AppError =>
+          errors.infrastructure("Failed to write cache entry", error)
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(undefined);
+    },
+  };
+}
+
+const parseEntry = fromThrowable(
+  (value: string): unknown => JSON.parse(value),
+  (error): AppError => errors.infrastructure("Corrupt cache entry", error)
+);
+
+export function createCache(store: CacheStore): Cache {
+  const inFlight = new Map<string, Promise<Result<unknown, AppError>>>();
+
+  // A broken cache should slow requests down, not fail them
+  const read = async (key: string): Promise<string | undefined> => {
+    const result = await store.get(key);
+    if (isErr(result)) {
+      logger.error("Cache read failed", { key, err: unwrapErr(result) });
+      return undefined;
+    }
+    return unwrap(result);
+  };
+
+  const write = async (key: string, value: unknown, ttlMs: number) => {
+    const result = await store.set(key, JSON.stringify(value), ttlMs);
+    if (isErr(result)) {
+      logger.error("Cache write failed", { key, err: unwrapErr(result) });
+    }
+  };
+
+  const load = async <T>(
+    key: string,
+    ttlMs: number,
+    loader: () => Promise<Result<T, AppError>>
+  ): Promise<Result<T, AppError>> => {
+    const cached = await read(key);
+    if (cached !== undefined) {
+      const parsed = parseEntry(cached);
+      if (!isErr(parsed)) {
+        logger.debug("Cache hit", { key });
+        metrics.recordCacheLookup(key, "hit");
+        return ok(unwrap(parsed) as T);
+      }
+      // Reloading overwrites the entry
+      logger.warn("Ignoring corrupt cache entry", {
+        key,
+        err: unwrapErr(parsed),
+      });
+    }
+
+    logger.debug("Cache miss", { key });
+    metrics.recordCacheLookup(key, "miss");
+    const result = await loader();
+    // Only successful lookups are cached; errors are retried next time
+    if (!isErr(result)) {
+      await write(key, unwrap(result), ttlMs);
+    }
+    return result;
+  };
+
+  return {
+    getOrLoad: <T>(
+      key: string,
+      ttlMs: number,
+      loader: () => Promise<Result<T, AppError>>
+    ) => {
+      const pending = inFlight.get(key);
+      if (pending) {
+        logger.debug("Cache wait", { key });
+        metrics.recordCacheLookup(key, "wait");
+        return pending as Promise<Result<T, AppError>>;
+      }
+
+      const promise = load(key, ttlMs, loader).finally(() =>
+        inFlight.delete(key)
+      );
+      inFlight.set(key, promise);
+      return promise;
+    },
+  };
+}
+
+// Shared cache configured from the environment (CACHE_STORE=memory|sqlite)
+export const cacheStore =
+  config.cacheStore === "sqlite"
+    ? createSqliteCacheStore(db)
+    : createMemoryCacheStore();
+
+export const cache = createCache(cacheStore);
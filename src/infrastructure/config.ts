@@ -0,0 +1,304 @@
+import dotenv from "dotenv";
+import { z } from "zod";
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+
+// Empty values in .env mean "not set", so defaults still apply
+const fromEnv = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() === "" ? undefined : value,
+    schema
+  );
+
+const required = (name: string) =>
+  fromEnv(z.string({ required_error: `${name} is required` }));
+
+const number = () =>
+  z.coerce.number({ invalid_type_error: "must be a number" });
+
+const positive = (fallback: number) =>
+  fromEnv(number().positive().default(fallback));
+
+export const MODEL_PROVIDERS = [
+  "google",
+  "openai",
+  "anthropic",
+  "openai-compatible",
+] as const;
+
+export type ModelSpec = {
+  provider: (typeof MODEL_PROVIDERS)[number];
+  modelId: string;
+};
+
+// "provider:model", e.g. "openai:gpt-4o-mini"; a bare model id is Gemini
+const modelSpec = z.string().transform((value, context): ModelSpec => {
+  const separator = value.indexOf(":");
+  if (separator === -1) {
+    return { provider: "google", modelId: value };
+  }
+
+  const provider = MODEL_PROVIDERS.find(
+    (name) => name === value.slice(0, separator)
+  );
+  const modelId = value.slice(separator + 1);
+  if (!provider || !modelId) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `must be "<provider>:<model>" with provider one of ${MODEL_PROVIDERS.join(", ")}`,
+    });
+    return z.NEVER;
+  }
+  return { provider, modelId };
+});
+
+const envSchema = z
+  .object({
+    PORT: fromEnv(number().int().min(1).max(65535).default(8080)),
+    MODEL: fromEnv(modelSpec.default("google:gemini-2.5-pro")),
+    INTENT_MODEL: fromEnv(modelSpec.optional()),
+    PLANNING_MODEL: fromEnv(modelSpec.optional()),
+    FALLBACK_MODEL: fromEnv(modelSpec.optional()),
+    GOOGLE_GENERATIVE_AI_API_KEY: fromEnv(z.string().optional()),
+    OPENAI_API_KEY: fromEnv(z.string().optional()),
+    ANTHROPIC_API_KEY: fromEnv(z.string().optional()),
+    // e.g. http://localhost:11434/v1 for Ollama
+    OPENAI_COMPATIBLE_BASE_URL: fromEnv(z.string().url().optional()),
+    OPENAI_COMPATIBLE_API_KEY: fromEnv(z.string().optional()),
+    LOG_LEVEL: fromEnv(
+      z.enum(["debug", "info", "warn", "error"]).default("info")
+    ),
+    LINE_CHANNEL_SECRET: required("LINE_CHANNEL_SECRET"),
+    LINE_CHANNEL_ACCESS_TOKEN: required("LINE_CHANNEL_ACCESS_TOKEN"),
+    OPEN_METEO_GEOCODING_URL: fromEnv(z.string().url().optional()),
+    OPEN_METEO_FORECAST_URL: fromEnv(z.string().url().optional()),
+    REVERSE_GEOCODING_URL: fromEnv(z.string().url().optional()),
+    MASTRA_DB_URL: fromEnv(z.string().default("file:./mastra.db")),
+    APP_DB_URL: fromEnv(z.string().default("file:./app.db")),
+    CACHE_STORE: fromEnv(z.enum(["memory", "sqlite"]).default("memory")),
+    SCHEDULER_SECRET: fromEnv(z.string().optional()),
+    API_KEYS: fromEnv(z.string().optional()),
+    API_KEYS_FILE: fromEnv(z.string().optional()),
+    RATE_LIMIT_HTTP_BURST: positive(10),
+    RATE_LIMIT_HTTP_PER_MINUTE: positive(10),
+    RATE_LIMIT_LINE_BURST: positive(5),
+    RATE_LIMIT_LINE_PER_MINUTE: positive(5),
+    LLM_MAX_CONCURRENCY: fromEnv(number().int().positive().default(4)),
+    // Open-Meteo and reverse geocoding calls
+    UPSTREAM_TIMEOUT_MS: positive(5000),
+    UPSTREAM_RETRIES: fromEnv(number().int().min(0).default(2)),
+    CIRCUIT_BREAKER_FAILURES: fromEnv(number().int().positive().default(5)),
+    CIRCUIT_BREAKER_RESET_MS: positive(30000),
+    // Number of proxy hops, or anything Express accepts for "trust proxy"
+    TRUST_PROXY: fromEnv(
+      z
+        .string()
+        .transform((value) => (/^\d+$/.test(value) ? Number(value) : value))
+        .optional()
+    ),
+    // Where OpenTelemetry spans go; "none" keeps tracing off
+    TRACES_EXPORTER: fromEnv(
+      z.enum(["none", "console", "otlp"]).default("none")
+    ),
+    // OTLP/HTTP collector, e.g. http://localhost:4318
+    OTEL_EXPORTER_OTLP_ENDPOINT: fromEnv(z.string().url().optional()),
+    OTEL_SERVICE_NAME: fromEnv(z.string().default("weather-agent")),
+  })
+  .superRefine((env, context) => {
+    const roles = [
+      "MODEL",
+      "INTENT_MODEL",
+      "PLANNING_MODEL",
+      "FALLBACK_MODEL",
+    ] as const;
+    if (
+      !env.OPENAI_COMPATIBLE_BASE_URL &&
+      roles.some((role) => env[role]?.provider === "openai-compatible")
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["OPENAI_COMPATIBLE_BASE_URL"],
+        message:
+          "OPENAI_COMPATIBLE_BASE_URL is required for openai-compatible models",
+      });
+    }
+  });
+
+function toConfig(env: z.infer<typeof envSchema>) {
+  return {
+    port: env.PORT,
+    models: {
+      // A cheap model is enough to classify messages; plans need a strong one
+      intent: env.INTENT_MODEL ?? env.MODEL,
+      planning: env.PLANNING_MODEL ?? env.MODEL,
+      fallback: env.FALLBACK_MODEL,
+    },
+    providers: {
+      googleApiKey: env.GOOGLE_GENERATIVE_AI_API_KEY,
+      openaiApiKey: env.OPENAI_API_KEY,
+      anthropicApiKey: env.ANTHROPIC_API_KEY,
+      openaiCompatibleBaseUrl: env.OPENAI_COMPATIBLE_BASE_URL,
+      openaiCompatibleApiKey: env.OPENAI_COMPATIBLE_API_KEY,
+    },
+    logLevel: env.LOG_LEVEL,
+    line: {
+      channelSecret: env.LINE_CHANNEL_SECRET,
+      channelAccessToken: env.LINE_CHANNEL_ACCESS_TOKEN,
+    },
+    openMeteo: {
+      geocodingBaseUrl: env.OPEN_METEO_GEOCODING_URL,
+      forecastBaseUrl: env.OPEN_METEO_FORECAST_URL,
+    },
+    reverseGeocodingUrl: env.REVERSE_GEOCODING_URL,
+    storage: {
+      mastraDbUrl: env.MASTRA_DB_URL,
+      appDbUrl: env.APP_DB_URL,
+    },
+    cacheStore: env.CACHE_STORE,
+    schedulerSecret: env.SCHEDULER_SECRET,
+    apiKeys: {
+      list: env.API_KEYS,
+      file: env.API_KEYS_FILE,
+    },
+    rateLimits: {
+      http: {
+        capacity: env.RATE_LIMIT_HTTP_BURST,
+        refillPerMinute: env.RATE_LIMIT_HTTP_PER_MINUTE,
+      },
+      line: {
+        capacity: env.RATE_LIMIT_LINE_BURST,
+        refillPerMinute: env.RATE_LIMIT_LINE_PER_MINUTE,
+      },
+      llmConcurrency: env.LLM_MAX_CONCURRENCY,
+    },
+    upstream: {
+      timeoutMs: env.UPSTREAM_TIMEOUT_MS,
+      retries: env.UPSTREAM_RETRIES,
+      breaker: {
+        failureThreshold: env.CIRCUIT_BREAKER_FAILURES,
+        resetAfterMs: env.CIRCUIT_BREAKER_RESET_MS,
+      },
+    },
+    telemetry: {
+      tracesExporter: env.TRACES_EXPORTER,
+      otlpEndpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      serviceName: env.OTEL_SERVICE_NAME,
+    },
+    trustProxy: env.TRUST_PROXY,
+  };
+}
+
+export type Config = ReturnType<typeof toConfig>;
+
+// Every problem at once, so a bad deploy is fixed in one go
+export function loadConfig(
+  env: Record<string, string | undefined>
+): Result<Config, ValidationError> {
+  const parsed = envSchema.safeParse(env);
+
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => {
+      const name = String(issue.path[0]);
+      return issue.message.startsWith(name)
+        ? `  - ${issue.message}`
+        : `  - ${name}: ${issue.message}`;
+    });
+    return err(
+      errors.validation(
+        `Invalid configuration:\n${problems.join("\n")}`,
+        String(parsed.error.issues[0].path[0])
+      )
+    );
+  }
+
+  return ok(toConfig(parsed.data));
+}
+
+function redact(secret: string | undefined): string {
+  return secret ? "[redacted]" : "[not set]";
+}
+
+// Query parameters that carry credentials, e.g. libsql's authToken
+const SECRET_PARAMS = /token|key|secret|password/i;
+
+// Keeps the host and path but hides userinfo and credential parameters
+function redactUrl<T extends string | undefined>(url: T): T {
+  if (!url || !URL.canParse(url)) {
+    return url;
+  }
+
+  const parsed = new URL(url);
+  let redacted = false;
+  if (parsed.username || parsed.password) {
+    parsed.username = "redacted";
+    parsed.password = "";
+    redacted = true;
+  }
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.test(name)) {
+      parsed.searchParams.set(name, "redacted");
+      redacted = true;
+    }
+  }
+  // Untouched URLs are logged as configured
+  return (redacted ? parsed.toString() : url) as T;
+}
+
+// Safe to log: secrets only show whether they are set
+export function redactConfig(config: Config) {
+  return {
+    ...config,
+    providers: {
+      ...config.providers,
+      googleApiKey: redact(config.providers.googleApiKey),
+      openaiApiKey: redact(config.providers.openaiApiKey),
+      anthropicApiKey: redact(config.providers.anthropicApiKey),
+      openaiCompatibleApiKey: redact(config.providers.openaiCompatibleApiKey),
+      openaiCompatibleBaseUrl: redactUrl(
+        config.providers.openaiCompatibleBaseUrl
+      ),
+    },
+    line: {
+      channelSecret: redact(config.line.channelSecret),
+      channelAccessToken: redact(config.line.channelAccessToken),
+    },
+    openMeteo: {
+      geocodingBaseUrl: redactUrl(config.openMeteo.geocodingBaseUrl),
+      forecastBaseUrl: redactUrl(config.openMeteo.forecastBaseUrl),
+    },
+    reverseGeocodingUrl: redactUrl(config.reverseGeocodingUrl),
+    storage: {
+      mastraDbUrl: redactUrl(config.storage.mastraDbUrl),
+      appDbUrl: redactUrl(config.storage.appDbUrl),
+    },
+    schedulerSecret: redact(config.schedulerSecret),
+    apiKeys: { ...config.apiKeys, list: redact(config.apiKeys.list) },
+    telemetry: {
+      ...config.telemetry,
+      otlpEndpoint: redactUrl(config.telemetry.otlpEndpoint),
+    },
+  };
+}
+
+function loadConfigOrExit(): Config {
+  dotenv.config();
+
+  const result = loadConfig(process.env);
+  if (isErr(result)) {
+    console.error(unwrapErr(result).message);
+    process.exit(1);
+  }
+  return unwrap(result);
+}
+
+// Loaded once at startup; the process refuses to boot with a bad config
+export const config = loadConfigOrExit();
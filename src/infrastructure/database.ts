@@ -0,0 +1,40 @@
+import { Client, createClient } from "@libsql/client";
+import {
+  AppError,
+  Result,
+  errors,
+  fromPromise,
+  isErr,
+} from "../utils/result.js";
+import { config } from "./config.js";
+
+// Local SQLite database for application data (preferences, subscriptions, ...)
+export function createDatabase(url = config.storage.appDbUrl): Client {
+  return createClient({ url });
+}
+
+export const db = createDatabase();
+
+// Runs a schema statement on first use and shares the outcome with every
+// caller. A failure is forgotten, so the next call tries again instead of
+// failing for the life of the process.
+export function createSchemaInit(
+  client: Client,
+  sql: string,
+  failure: string
+): () => Promise<Result<void, AppError>> {
+  let ready: Promise<Result<void, AppError>> | undefined;
+
+  return () => {
+    ready ??= fromPromise(
+      client.execute(sql).then(() => undefined),
+      (error): AppError => errors.infrastructure(failure, error)
+    ).then((result) => {
+      if (isErr(result)) {
+        ready = undefined;
+      }
+      return result;
+    });
+    return ready;
+  };
+}
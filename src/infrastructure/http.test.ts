@@ -0,0 +1,22 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import { err, errors } from "../utils/result.js";
+import { getJson } from "./http.js";
+
+describe("getJson", () => {
+  it("keeps validation details out of the error", async () => {
+    const fetchFn = (async () =>
+      Response.json({ results: "none" })) as unknown as typeof fetch;
+
+    const result = await getJson(
+      fetchFn,
+      "https://geocoding-api.open-meteo.com/v1/search?name=Tokyo",
+      z.object({ results: z.array(z.string()) }),
+      "Geocoding"
+    );
+
+    expect(result).toEqual(
+      err(errors.weatherAPI("Invalid Geocoding response"))
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { trace } from "@opentelemetry/api";
+import { z } from "zod";
+import {
+  AppError,
+  Result,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import { isCircuitOpen, isTimeout } from "./resilient-fetch.js";
+import { withSpan } from "./telemetry.js";
+
+// Only the delay-seconds form; HTTP dates are rare from APIs
+function retryAfterMs(header: string | null): number | undefined {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+async function fetchJson<T>(
+  fetchFn: typeof fetch,
+  url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  init?: RequestInit
+): Promise<Result<T, AppError>> {
+  const responseResult = await fromPromise<Response, AppError>(
+    fetchFn(url, init),
+    (error): AppError =>
+      isCircuitOpen(error)
+        ? errors.upstreamUnavailable(label, error.retryAfterMs)
+        : isTimeout(error)
+          ? errors.upstreamTimeout(label)
+          : errors.infrastructure(`Failed to fetch ${label} data`, error)
+  );
+
+  if (isErr(responseResult)) {
+    return responseResult;
+  }
+
+  const response = unwrap(responseResult);
+  trace
+    .getActiveSpan()
+    ?.setAttribute("http.response.status_code", response.status);
+
+  if (response.status === 429) {
+    return err(
+      errors.rateLimited(
+        `${label} rate limit exceeded`,
+        retryAfterMs(response.headers.get("Retry-After"))
+      )
+    );
+  }
+
+  if (!response.ok) {
+    return err(
+      errors.weatherAPI(
+        `${label} request failed with status ${response.status}`,
+        response.status
+      )
+    );
+  }
+
+  const bodyResult = await fromPromise<unknown, AppError>(
+    response.json(),
+    (error): AppError =>
+      errors.infrastructure(`Failed to read ${label} response`, error)
+  );
+
+  if (isErr(bodyResult)) {
+    return bodyResult;
+  }
+
+  const parsed = schema.safeParse(unwrap(bodyResult));
+
+  // Zod's issue list is for us, not for the clients that see the error
+  if (!parsed.success) {
+    logger.warn("Invalid upstream response", { label, err: parsed.error });
+    return err(errors.weatherAPI(`Invalid ${label} response`));
+  }
+
+  return ok(parsed.data);
+}
+
+// Fetch a URL and validate the JSON body against a schema. Each call gets a
+// span and lands in the upstream latency histogram under its label.
+export function getJson<T>(
+  fetchFn: typeof fetch,
+  url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  init?: RequestInit
+): Promise<Result<T, AppError>> {
+  const started = performance.now();
+
+  return withSpan(
+    `GET ${label}`,
+    { "upstream.service": label, "url.full": url },
+    async () => {
+      const result = await fetchJson(fetchFn, url, schema, label, init);
+      metrics.recordUpstream(
+        label,
+        isErr(result) ? unwrapErr(result).kind : "ok",
+        (performance.now() - started) / 1000
+      );
+      return result;
+    }
+  );
+}
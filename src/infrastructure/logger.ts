@@ -0,0 +1,63 @@
+import { IMastraLogger } from "@mastra/core/logger";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { PinoLogger } from "@mastra/loggers";
+import { randomUUID } from "node:crypto";
+import { config } from "./config.js";
+
+export type Logger = Pick<IMastraLogger, "debug" | "info" | "warn" | "error">;
+
+// Shared by Mastra and the server so every line has the same structure
+export const logger = new PinoLogger({
+  name: "Mastra",
+  level: config.logLevel,
+});
+
+// Ties together everything one HTTP request or LINE event triggers
+export type RequestContext = {
+  correlationId: string;
+};
+
+export function newRequestContext(): RequestContext {
+  return { correlationId: randomUUID() };
+}
+
+// Adds the correlation id to every line; pino reads errors from `err`
+export function requestLogger(
+  context: RequestContext,
+  base: Logger = logger
+): Logger {
+  const bind =
+    (log: (message: string, args?: Record<string, unknown>) => void) =>
+    (message: string, args: Record<string, unknown> = {}) =>
+      log(message, { correlationId: context.correlationId, ...args });
+
+  return {
+    debug: bind(base.debug.bind(base)),
+    info: bind(base.info.bind(base)),
+    warn: bind(base.warn.bind(base)),
+    error: bind(base.error.bind(base)),
+  };
+}
+
+// Agents, tools and workflow steps get the request through Mastra's
+// RuntimeContext
+export type RequestRuntimeContext = {
+  correlationId: string;
+};
+
+export function setRequestContext(
+  runtimeContext: RuntimeContext,
+  context: RequestContext
+) {
+  (runtimeContext as RuntimeContext<RequestRuntimeContext>).set(
+    "correlationId",
+    context.correlationId
+  );
+}
+
+export function runtimeLogger(runtimeContext: RuntimeContext): Logger {
+  const correlationId = (
+    runtimeContext as RuntimeContext<RequestRuntimeContext>
+  ).get("correlationId");
+  return correlationId ? requestLogger({ correlationId }) : logger;
+}
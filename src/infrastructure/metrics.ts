@@ -0,0 +1,91 @@
+import { PrometheusExporter } from "@opentelemetry/exporter-prometheus";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { MeterProvider } from "@opentelemetry/sdk-metrics";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { AppError } from "../utils/result.js";
+import { config } from "./config.js";
+
+export type ErrorChannel = "http" | "line";
+
+// "wait" is a lookup that joined a load already in flight
+export type CacheOutcome = "hit" | "miss" | "wait";
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// Upstream calls are mostly well under a second; the LLM can take tens
+const LATENCY_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Prometheus metrics, scraped from GET /metrics rather than pushed
+export function createMetrics(serviceName: string) {
+  const exporter = new PrometheusExporter({ preventServerStart: true });
+  const meter = new MeterProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: serviceName }),
+    readers: [exporter],
+  }).getMeter("weather-agent");
+
+  const requests = meter.createCounter("http_requests", {
+    description: "HTTP requests by route and status",
+  });
+  const appErrors = meter.createCounter("app_errors", {
+    description: "Errors answered to HTTP clients and LINE users, by kind",
+  });
+  const upstreamDuration = meter.createHistogram(
+    "upstream_request_duration_seconds",
+    {
+      description: "Latency of Open-Meteo and geocoding requests",
+      unit: "s",
+      advice: { explicitBucketBoundaries: LATENCY_BUCKETS_SECONDS },
+    }
+  );
+  const llmTokens = meter.createCounter("llm_tokens", {
+    description: "Tokens used by language model calls",
+  });
+  const cacheLookups = meter.createCounter("cache_lookups", {
+    description: "Cache lookups by key prefix and outcome",
+  });
+
+  return {
+    recordRequest: (method: string, route: string, status: number) => {
+      requests.add(1, { method, route, status });
+    },
+
+    recordError: (error: AppError, channel: ErrorChannel) => {
+      appErrors.add(1, { kind: error.kind, channel });
+    },
+
+    // outcome is "ok" or the AppError kind
+    recordUpstream: (service: string, outcome: string, seconds: number) => {
+      upstreamDuration.record(seconds, { service, outcome });
+    },
+
+    // Providers report NaN when they don't know the usage
+    recordTokens: (model: string, usage: TokenUsage) => {
+      if (Number.isFinite(usage.promptTokens)) {
+        llmTokens.add(usage.promptTokens, { model, type: "input" });
+      }
+      if (Number.isFinite(usage.completionTokens)) {
+        llmTokens.add(usage.completionTokens, { model, type: "output" });
+      }
+    },
+
+    // Labelled by the key's prefix, e.g. "forecast", so keys don't turn
+    // into a label each
+    recordCacheLookup: (key: string, outcome: CacheOutcome) => {
+      cacheLookups.add(1, { cache: key.split(":")[0], outcome });
+    },
+
+    // Writes the Prometheus text format
+    serve: (req: IncomingMessage, res: ServerResponse) => {
+      exporter.getMetricsRequestHandler(req, res);
+    },
+  };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
+
+// Shared by everything that records; one registry per process
+export const metrics = createMetrics(config.telemetry.serviceName);
@@ -0,0 +1,301 @@
+import { z } from "zod";
+import {
+  Coordinates,
+  LocationCandidate,
+  LocationContext,
+  chooseLocation,
+  parseLocationQuery,
+} from "../domain/locations.js";
+import { AppError, Result, isErr, ok, unwrap } from "../utils/result.js";
+import { Cache, DAY, HOUR, MINUTE, cache } from "./cache.js";
+import { config } from "./config.js";
+import { getJson } from "./http.js";
+import { upstreamFetch } from "./resilient-fetch.js";
+
+// Response schemas
+const geocodingResponseSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+        name: z.string(),
+        admin1: z.string().optional(),
+        country: z.string().optional(),
+        country_code: z.string().optional(),
+        population: z.number().optional(),
+        timezone: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const currentWeatherResponseSchema = z.object({
+  current: z.object({
+    time: z.string(),
+    temperature_2m: z.number(),
+    apparent_temperature: z.number(),
+    relative_humidity_2m: z.number(),
+    wind_speed_10m: z.number(),
+    wind_gusts_10m: z.number(),
+    weather_code: z.number(),
+  }),
+});
+
+const dailyForecastResponseSchema = z.object({
+  daily: z.object({
+    time: z.array(z.string()),
+    weather_code: z.array(z.number()),
+    temperature_2m_max: z.array(z.number()),
+    temperature_2m_min: z.array(z.number()),
+    apparent_temperature_max: z.array(z.number()),
+    wind_gusts_10m_max: z.array(z.number()),
+    precipitation_sum: z.array(z.number()),
+    precipitation_probability_max: z.array(z.number().nullable()),
+    sunrise: z.array(z.string()),
+    sunset: z.array(z.string()),
+    uv_index_max: z.array(z.number().nullable()),
+  }),
+});
+
+// Domain types returned by the client
+export type { Coordinates };
+
+export type GeocodedLocation = LocationCandidate;
+
+export type CurrentWeather = {
+  time: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  windSpeed: number;
+  windGust: number;
+  weatherCode: number;
+};
+
+export type DailyForecast = {
+  date: string;
+  weatherCode: number;
+  maxTemp: number;
+  minTemp: number;
+  apparentTempMax: number;
+  windGustMax: number;
+  precipitationSum: number;
+  precipitationChance: number | null;
+  sunrise: string;
+  sunset: string;
+  uvIndexMax: number | null;
+};
+
+export type OpenMeteoConfig = {
+  geocodingBaseUrl?: string;
+  forecastBaseUrl?: string;
+  fetch?: typeof fetch;
+};
+
+export type OpenMeteoClient = {
+  geocode: (
+    name: string,
+    options?: LocationContext
+  ) => Promise<Result<GeocodedLocation, AppError>>;
+  getCurrentWeather: (
+    coordinates: Coordinates
+  ) => Promise<Result<CurrentWeather, AppError>>;
+  getDailyForecast: (
+    coordinates: Coordinates,
+    days: number
+  ) => Promise<Result<DailyForecast[], AppError>>;
+};
+
+export const DEFAULT_GEOCODING_BASE_URL =
+  "https://geocoding-api.open-meteo.com";
+export const DEFAULT_FORECAST_BASE_URL = "https://api.open-meteo.com";
+
+// Enough to find the right Springfield without paging
+const GEOCODING_CANDIDATES = 10;
+
+export function createOpenMeteoClient(
+  config: OpenMeteoConfig = {}
+): OpenMeteoClient {
+  const geocodingBaseUrl =
+    config.geocodingBaseUrl ?? DEFAULT_GEOCODING_BASE_URL;
+  const forecastBaseUrl = config.forecastBaseUrl ?? DEFAULT_FORECAST_BASE_URL;
+  const fetchFn = config.fetch ?? fetch;
+
+  return {
+    geocode: async (name, options = {}) => {
+      // Qualifiers like "Portland, Maine" are for ranking, not for the search
+      const query = parseLocationQuery(name);
+      const language = options.language ? `&language=${options.language}` : "";
+      const url = `${geocodingBaseUrl}/v1/search?name=${encodeURIComponent(query.name)}&count=${GEOCODING_CANDIDATES}${language}`;
+      const result = await getJson(
+        fetchFn,
+        url,
+        geocodingResponseSchema,
+        "geocoding"
+      );
+
+      if (isErr(result)) {
+        return result;
+      }
+
+      const candidates = (unwrap(result).results ?? []).map(
+        ({ country_code, ...candidate }) => ({
+          ...candidate,
+          countryCode: country_code,
+        })
+      );
+
+      return chooseLocation(name, candidates, options);
+    },
+
+    getCurrentWeather: async ({ latitude, longitude }) => {
+      const url = `${forecastBaseUrl}/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code`;
+      const result = await getJson(
+        fetchFn,
+        url,
+        currentWeatherResponseSchema,
+        "weather"
+      );
+
+      if (isErr(result)) {
+        return result;
+      }
+
+      const { current } = unwrap(result);
+
+      return ok({
+        time: current.time,
+        temperature: current.temperature_2m,
+        feelsLike: current.apparent_temperature,
+        humidity: current.relative_humidity_2m,
+        windSpeed: current.wind_speed_10m,
+        windGust: current.wind_gusts_10m,
+        weatherCode: current.weather_code,
+      });
+    },
+
+    getDailyForecast: async ({ latitude, longitude }, days) => {
+      const url = `${forecastBaseUrl}/v1/forecast?latitude=${latitude}&longitude=${longitude}&daily=weather_code,temperature_2m_max,temperature_2m_min,apparent_temperature_max,wind_gusts_10m_max,precipitation_sum,precipitation_probability_max,sunrise,sunset,uv_index_max&timezone=auto&forecast_days=${days}`;
+      const result = await getJson(
+        fetchFn,
+        url,
+        dailyForecastResponseSchema,
+        "forecast"
+      );
+
+      if (isErr(result)) {
+        return result;
+      }
+
+      const { daily } = unwrap(result);
+
+      // Open-Meteo returns parallel arrays, one entry per day
+      return ok(
+        daily.time.map((date, i) => ({
+          date,
+          weatherCode: daily.weather_code[i],
+          maxTemp: daily.temperature_2m_max[i],
+          minTemp: daily.temperature_2m_min[i],
+          apparentTempMax: daily.apparent_temperature_max[i],
+          windGustMax: daily.wind_gusts_10m_max[i],
+          precipitationSum: daily.precipitation_sum[i],
+          precipitationChance: daily.precipitation_probability_max[i],
+          sunrise: daily.sunrise[i],
+          sunset: daily.sunset[i],
+          uvIndexMax: daily.uv_index_max[i],
+        }))
+      );
+    },
+  };
+}
+
+export type CacheTtls = {
+  geocoding: number;
+  current: number;
+  forecast: number;
+};
+
+export const defaultCacheTtls: CacheTtls = {
+  geocoding: 7 * DAY,
+  current: 10 * MINUTE,
+  forecast: HOUR,
+};
+
+// ~1km grid, so nearby lookups share an entry
+function coordinateKey({ latitude, longitude }: Coordinates): string {
+  return `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+}
+
+// Wrap a client so lookups go through the cache
+export function withCache(
+  client: OpenMeteoClient,
+  cache: Cache,
+  ttls: CacheTtls = defaultCacheTtls,
+  now: () => Date = () => new Date()
+): OpenMeteoClient {
+  return {
+    geocode: (name, options = {}) =>
+      cache.getOrLoad(
+        `geocoding:${name.trim().toLowerCase()}:${options.language ?? ""}:${options.countryCode ?? ""}`,
+        ttls.geocoding,
+        () => client.geocode(name, options)
+      ),
+
+    getCurrentWeather: (coordinates) =>
+      cache.getOrLoad(
+        `current:${coordinateKey(coordinates)}`,
+        ttls.current,
+        () => client.getCurrentWeather(coordinates)
+      ),
+
+    // Keyed by the hour too, so forecasts refresh as the model updates
+    getDailyForecast: (coordinates, days) =>
+      cache.getOrLoad(
+        `forecast:${coordinateKey(coordinates)}:${days}:${now().toISOString().slice(0, 13)}`,
+        ttls.forecast,
+        () => client.getDailyForecast(coordinates, days)
+      ),
+  };
+}
+
+// Shared client configured from the environment
+export const openMeteo = withCache(
+  createOpenMeteoClient({ ...config.openMeteo, fetch: upstreamFetch }),
+  cache
+);
+
+// WMO weather interpretation codes used by Open-Meteo
+export function getWeatherCondition(code: number): string {
+  const conditions: Record<number, string> = {
+    0: "Clear sky",
+    1: "Mainly clear",
+    2: "Partly cloudy",
+    3: "Overcast",
+    45: "Foggy",
+    48: "Depositing rime fog",
+    51: "Light drizzle",
+    53: "Moderate drizzle",
+    55: "Dense drizzle",
+    56: "Light freezing drizzle",
+    57: "Dense freezing drizzle",
+    61: "Slight rain",
+    63: "Moderate rain",
+    65: "Heavy rain",
+    66: "Light freezing rain",
+    67: "Heavy freezing rain",
+    71: "Slight snow fall",
+    73: "Moderate snow fall",
+    75: "Heavy snow fall",
+    77: "Snow grains",
+    80: "Slight rain showers",
+    81: "Moderate rain showers",
+    82: "Violent rain showers",
+    85: "Slight snow showers",
+    86: "Heavy snow showers",
+    95: "Thunderstorm",
+    96: "Thunderstorm with slight hail",
+    99: "Thunderstorm with heavy hail",
+  };
+  return conditions[code] || "Unknown";
+}
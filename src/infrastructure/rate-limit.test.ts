@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import { MINUTE } from "./cache.js";
+import {
+  createConcurrencyLimiter,
+  createTokenBucketLimiter,
+} from "./rate-limit.js";
+
+describe("createTokenBucketLimiter", () => {
+  it("allows a burst, then asks the caller to wait", () => {
+    const limiter = createTokenBucketLimiter({
+      capacity: 2,
+      refillPerMinute: 6,
+      now: () => 0,
+    });
+
+    expect(limiter.take("U1")).toEqual({ allowed: true });
+    expect(limiter.take("U1")).toEqual({ allowed: true });
+    expect(limiter.take("U1")).toEqual({ allowed: false, retryAfterMs: 10000 });
+  });
+
+  it("keeps a bucket per user", () => {
+    const limiter = createTokenBucketLimiter({
+      capacity: 1,
+      refillPerMinute: 1,
+      now: () => 0,
+    });
+
+    expect(limiter.take("U1")).toEqual({ allowed: true });
+    expect(limiter.take("U1").allowed).toBe(false);
+    expect(limiter.take("U2")).toEqual({ allowed: true });
+  });
+
+  it("refills over time", () => {
+    let time = 0;
+    const limiter = createTokenBucketLimiter({
+      capacity: 1,
+      refillPerMinute: 2,
+      now: () => time,
+    });
+
+    limiter.take("U1");
+    time = MINUTE / 4;
+    expect(limiter.take("U1")).toEqual({ allowed: false, retryAfterMs: 15000 });
+    time = MINUTE / 2;
+    expect(limiter.take("U1")).toEqual({ allowed: true });
+  });
+
+  it("starts a dropped bucket full again", () => {
+    const limiter = createTokenBucketLimiter({
+      capacity: 1,
+      refillPerMinute: 1,
+      maxKeys: 1,
+      now: () => 0,
+    });
+
+    limiter.take("U1");
+    limiter.take("U2");
+
+    expect(limiter.take("U1")).toEqual({ allowed: true });
+  });
+});
+
+describe("createConcurrencyLimiter", () => {
+  it("runs at most the limit at once, in arrival order", async () => {
+    const limiter = createConcurrencyLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const started: number[] = [];
+    const task = (id: number) => async () => {
+      started.push(id);
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return id;
+    };
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((id) => limiter.run(task(id)))
+    );
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it("frees the slot when a task fails", async () => {
+    const limiter = createConcurrencyLimiter(1);
+
+    const failed = limiter.run(() => Promise.reject(new Error("timeout")));
+    const next = limiter.run(async () => "answered");
+
+    await expect(failed).rejects.toThrow("timeout");
+    expect(await next).toBe("answered");
+  });
+});
@@ -0,0 +1,114 @@
+import { MINUTE } from "./cache.js";
+import { config } from "./config.js";
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number };
+
+export type RateLimiter = {
+  // Spend one token for the key, e.g. a client IP or LINE user id
+  take: (key: string) => RateLimitDecision;
+};
+
+export type TokenBucketOptions = {
+  // Burst size: how many calls a new or idle key can make at once
+  capacity: number;
+  // Sustained rate once the burst is used up
+  refillPerMinute: number;
+  // Buckets kept in memory; the least recently used are dropped first
+  maxKeys?: number;
+  now?: () => number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export function createTokenBucketLimiter(
+  options: TokenBucketOptions
+): RateLimiter {
+  const { capacity, refillPerMinute } = options;
+  const maxKeys = options.maxKeys ?? 10000;
+  const now = options.now ?? Date.now;
+  const refillPerMs = refillPerMinute / MINUTE;
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    take: (key) => {
+      const time = now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: time };
+      const tokens = Math.min(
+        capacity,
+        bucket.tokens + (time - bucket.updatedAt) * refillPerMs
+      );
+      const allowed = tokens >= 1;
+
+      // Re-insert so the Map keeps buckets in last-used order
+      buckets.delete(key);
+      buckets.set(key, {
+        tokens: allowed ? tokens - 1 : tokens,
+        updatedAt: time,
+      });
+
+      // A dropped bucket starts full again, which only errs on the lenient side
+      for (const oldest of buckets.keys()) {
+        if (buckets.size <= maxKeys) {
+          break;
+        }
+        buckets.delete(oldest);
+      }
+
+      if (allowed) {
+        return { allowed: true };
+      }
+      return {
+        allowed: false,
+        retryAfterMs: Math.ceil((1 - tokens) / refillPerMs),
+      };
+    },
+  };
+}
+
+export type ConcurrencyLimiter = {
+  // Run the task once a slot is free; callers beyond the limit wait in order
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+};
+
+export function createConcurrencyLimiter(
+  maxConcurrent: number
+): ConcurrencyLimiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async () => {
+    if (active < maxConcurrent) {
+      active++;
+      return;
+    }
+    // The releasing task hands its slot straight to us
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    run: async (task) => {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+// Shared by every agent call so the whole process stays under the cap
+export const llmLimiter = createConcurrencyLimiter(
+  config.rateLimits.llmConcurrency
+);
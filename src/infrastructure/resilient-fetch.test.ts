@@ -0,0 +1,199 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ResilientFetchOptions,
+  createResilientFetch,
+  isCircuitOpen,
+  isTimeout,
+} from "./resilient-fetch.js";
+
+type Answer = number | Error;
+
+// Answers each call with the next status or error, then 200s
+function scriptedFetch(answers: Answer[]) {
+  const remaining = [...answers];
+  const calls: { url: string; init?: RequestInit }[] = [];
+
+  const fetchFn = (async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ) => {
+    calls.push({ url: String(input), init });
+    const answer = remaining.shift() ?? 200;
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    return new Response("{}", { status: answer });
+  }) as typeof fetch;
+
+  return { fetchFn, calls };
+}
+
+function setup(
+  answers: Answer[],
+  overrides: Partial<ResilientFetchOptions> = {}
+) {
+  const scripted = scriptedFetch(answers);
+  const delays: number[] = [];
+  let time = 0;
+
+  const resilientFetch = createResilientFetch(scripted.fetchFn, {
+    timeoutMs: 1000,
+    retries: 2,
+    breaker: { failureThreshold: 2, resetAfterMs: 30000 },
+    now: () => time,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    random: () => 1,
+    ...overrides,
+  });
+
+  return {
+    resilientFetch,
+    calls: scripted.calls,
+    delays,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+const url = "https://api.open-meteo.com/v1/forecast";
+
+describe("retries", () => {
+  it("retries GETs on server errors with growing delays", async () => {
+    const { resilientFetch, calls, delays } = setup([503, 502]);
+
+    const response = await resilientFetch(url);
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+    expect(delays).toEqual([200, 400]);
+  });
+
+  it("jitters the delay", async () => {
+    const { resilientFetch, delays } = setup([503], { random: () => 0.5 });
+
+    await resilientFetch(url);
+
+    expect(delays).toEqual([100]);
+  });
+
+  it("returns the last response once retries run out", async () => {
+    const { resilientFetch, calls } = setup([503, 503, 503]);
+
+    const response = await resilientFetch(url);
+
+    expect(response.status).toBe(503);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("retries network errors", async () => {
+    const { resilientFetch, calls } = setup([new TypeError("fetch failed")]);
+
+    const response = await resilientFetch(url);
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("leaves client errors and other methods alone", async () => {
+    const { resilientFetch, calls } = setup([404, 503]);
+
+    const notFound = await resilientFetch(url);
+    const posted = await resilientFetch(url, { method: "POST" });
+
+    expect(notFound.status).toBe(404);
+    expect(posted.status).toBe(503);
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe("timeouts", () => {
+  it("aborts a slow attempt without retrying it", async () => {
+    let calls = 0;
+    const hanging = (async (
+      _input: string | URL | Request,
+      init?: RequestInit
+    ) => {
+      calls++;
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(init.signal?.reason)
+        );
+      });
+    }) as typeof fetch;
+    const resilientFetch = createResilientFetch(hanging, {
+      timeoutMs: 10,
+      retries: 2,
+      breaker: { failureThreshold: 5, resetAfterMs: 30000 },
+    });
+
+    const error = await resilientFetch(url).catch((error) => error);
+
+    expect(isTimeout(error)).toBe(true);
+    expect(calls).toBe(1);
+  });
+});
+
+describe("circuit breaker", () => {
+  it("fails fast once a host keeps failing", async () => {
+    // Two calls of three attempts each
+    const { resilientFetch, calls, advance } = setup([
+      503, 503, 503, 503, 503, 503,
+    ]);
+
+    await resilientFetch(url);
+    await resilientFetch(url);
+    advance(10000);
+    const error = await resilientFetch(url).catch((error) => error);
+
+    expect(isCircuitOpen(error)).toBe(true);
+    expect(error.host).toBe("api.open-meteo.com");
+    expect(error.retryAfterMs).toBe(20000);
+    expect(calls).toHaveLength(6);
+  });
+
+  it("keeps a circuit per host", async () => {
+    const { resilientFetch } = setup([503, 503], { retries: 0 });
+
+    await resilientFetch(url);
+    await resilientFetch(url);
+    const other = await resilientFetch(
+      "https://geocoding-api.open-meteo.com/v1/search?name=Tokyo"
+    );
+
+    expect(other.status).toBe(200);
+  });
+
+  it("lets one trial call through after the reset time", async () => {
+    const { resilientFetch, calls, advance } = setup([503, 503], {
+      retries: 0,
+    });
+
+    await resilientFetch(url);
+    await resilientFetch(url);
+    advance(30000);
+    const trial = await resilientFetch(url);
+    const after = await resilientFetch(url);
+
+    expect(trial.status).toBe(200);
+    expect(after.status).toBe(200);
+    expect(calls).toHaveLength(4);
+  });
+
+  it("opens again when the trial call fails", async () => {
+    const { resilientFetch, advance } = setup([503, 503, 503], {
+      retries: 0,
+    });
+
+    await resilientFetch(url);
+    await resilientFetch(url);
+    advance(30000);
+    await resilientFetch(url);
+    const error = await resilientFetch(url).catch((error) => error);
+
+    expect(isCircuitOpen(error)).toBe(true);
+    expect(error.retryAfterMs).toBe(30000);
+  });
+});
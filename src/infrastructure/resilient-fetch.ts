@@ -0,0 +1,188 @@
+import { trace } from "@opentelemetry/api";
+import { setTimeout as delay } from "node:timers/promises";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+// AbortSignal.timeout() rejects with a TimeoutError
+export function isTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === "TimeoutError";
+}
+
+// Thrown instead of calling a host whose circuit is open
+export type CircuitOpenError = Error & {
+  name: "CircuitOpenError";
+  host: string;
+  // Unset while a trial call is already on its way
+  retryAfterMs?: number;
+};
+
+function circuitOpenError(host: string, retryAfterMs?: number) {
+  const error: CircuitOpenError = Object.assign(
+    new Error(`Circuit for ${host} is open`),
+    { name: "CircuitOpenError" as const, host, retryAfterMs }
+  );
+  return error;
+}
+
+export function isCircuitOpen(error: unknown): error is CircuitOpenError {
+  return error instanceof Error && error.name === "CircuitOpenError";
+}
+
+export type ResilientFetchOptions = {
+  // Per attempt, so a call can take up to (retries + 1) times this
+  timeoutMs: number;
+  // Extra attempts for GETs after a 5xx or network error
+  retries: number;
+  breaker: {
+    // Consecutive failed calls to a host before its circuit opens
+    failureThreshold: number;
+    // How long an open circuit fails fast before one trial call goes out
+    resetAfterMs: number;
+  };
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+type Circuit = {
+  failures: number;
+  openUntil?: number;
+  // A trial call is in flight after the reset period
+  probing: boolean;
+};
+
+// Safe to send twice
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Wraps fetch with a timeout per attempt, jittered exponential retries for
+// idempotent requests, and a circuit breaker per host. Retried 5xx answers
+// still resolve with the last response, so callers map statuses as before.
+export function createResilientFetch(
+  fetchFn: typeof fetch,
+  options: ResilientFetchOptions
+): typeof fetch {
+  const { timeoutMs, retries, breaker } = options;
+  const baseDelayMs = options.baseDelayMs ?? 200;
+  const maxDelayMs = options.maxDelayMs ?? 2000;
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? ((ms: number) => delay(ms));
+  const random = options.random ?? Math.random;
+  const circuits = new Map<string, Circuit>();
+
+  const admit = (host: string) => {
+    const circuit = circuits.get(host);
+    if (circuit?.openUntil === undefined) {
+      return;
+    }
+    const remainingMs = circuit.openUntil - now();
+    if (remainingMs > 0) {
+      throw circuitOpenError(host, remainingMs);
+    }
+    if (circuit.probing) {
+      throw circuitOpenError(host);
+    }
+    circuit.probing = true;
+  };
+
+  const succeeded = (host: string) => {
+    if (circuits.get(host)?.openUntil !== undefined) {
+      logger.info("Upstream circuit closed", { host });
+    }
+    circuits.delete(host);
+  };
+
+  const failed = (host: string) => {
+    const circuit = circuits.get(host) ?? { failures: 0, probing: false };
+    circuit.failures++;
+    // A failed trial call opens the circuit again straight away
+    if (
+      circuit.probing ||
+      (circuit.openUntil === undefined &&
+        circuit.failures >= breaker.failureThreshold)
+    ) {
+      circuit.openUntil = now() + breaker.resetAfterMs;
+      logger.warn("Upstream circuit opened", {
+        host,
+        failures: circuit.failures,
+      });
+    }
+    circuit.probing = false;
+    circuits.set(host, circuit);
+  };
+
+  // The caller gave up, which says nothing about the host
+  const released = (host: string) => {
+    const circuit = circuits.get(host);
+    if (circuit) {
+      circuit.probing = false;
+    }
+  };
+
+  // "Full jitter", so clients that failed together don't retry together
+  const backoffMs = (attempt: number) =>
+    random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+  const retrying = async (host: string, attempt: number, reason: string) => {
+    const delayMs = backoffMs(attempt);
+    logger.warn("Retrying upstream request", {
+      host,
+      attempt: attempt + 1,
+      reason,
+      delayMs: Math.round(delayMs),
+    });
+    trace.getActiveSpan()?.addEvent("retry", { attempt: attempt + 1, reason });
+    await sleep(delayMs);
+  };
+
+  const withTimeout = (signal: AbortSignal | null | undefined) =>
+    signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)])
+      : AbortSignal.timeout(timeoutMs);
+
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const request = input instanceof Request ? input : undefined;
+    const host = new URL(request?.url ?? input.toString()).host;
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase();
+    const callerSignal = init?.signal ?? request?.signal;
+    const maxRetries = IDEMPOTENT_METHODS.has(method) ? retries : 0;
+
+    admit(host);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetchFn(input, {
+          ...init,
+          signal: withTimeout(callerSignal),
+        });
+        if (response.status < 500) {
+          succeeded(host);
+          return response;
+        }
+        if (attempt >= maxRetries) {
+          failed(host);
+          return response;
+        }
+        // Free the connection before trying again
+        await response.body?.cancel();
+        await retrying(host, attempt, `status ${response.status}`);
+      } catch (error) {
+        if (callerSignal?.aborted) {
+          released(host);
+          throw error;
+        }
+        // A slow host would only be slower the second time
+        if (isTimeout(error) || attempt >= maxRetries) {
+          failed(host);
+          throw error;
+        }
+        await retrying(host, attempt, "network error");
+      }
+    }
+  }) as typeof fetch;
+}
+
+// Shared by the Open-Meteo and reverse geocoding clients, so each host has
+// one circuit for the whole process
+export const upstreamFetch = createResilientFetch(fetch, config.upstream);
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { Coordinates, formatCoordinates } from "../domain/locations.js";
+import { AppError, Result, isErr, ok, unwrap } from "../utils/result.js";
+import { Cache, DAY, cache } from "./cache.js";
+import { config } from "./config.js";
+import { getJson } from "./http.js";
+import { upstreamFetch } from "./resilient-fetch.js";
+
+// Nominatim-compatible reverse geocoding response
+const reverseGeocodingResponseSchema = z.object({
+  name: z.string().optional(),
+  display_name: z.string().optional(),
+  address: z
+    .object({
+      city: z.string().optional(),
+      town: z.string().optional(),
+      village: z.string().optional(),
+      suburb: z.string().optional(),
+      state: z.string().optional(),
+      country: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type ReverseGeocoderConfig = {
+  baseUrl?: string;
+  userAgent?: string;
+  fetch?: typeof fetch;
+};
+
+export type ReverseGeocoder = {
+  // Display name for a point, e.g. "Shibuya, Tokyo, Japan"
+  reverseGeocode: (
+    coordinates: Coordinates,
+    language?: string
+  ) => Promise<Result<string, AppError>>;
+};
+
+export const DEFAULT_REVERSE_GEOCODING_BASE_URL =
+  "https://nominatim.openstreetmap.org";
+
+export function createReverseGeocoder(
+  config: ReverseGeocoderConfig = {}
+): ReverseGeocoder {
+  const baseUrl = config.baseUrl ?? DEFAULT_REVERSE_GEOCODING_BASE_URL;
+  const fetchFn = config.fetch ?? fetch;
+  // Nominatim's usage policy requires an identifying User-Agent
+  const userAgent = config.userAgent ?? "my-mastra-agent";
+
+  return {
+    reverseGeocode: async ({ latitude, longitude }, language) => {
+      const url = `${baseUrl}/reverse?format=jsonv2&zoom=10&lat=${latitude}&lon=${longitude}`;
+      const result = await getJson(
+        fetchFn,
+        url,
+        reverseGeocodingResponseSchema,
+        "reverse geocoding",
+        {
+          headers: {
+            "User-Agent": userAgent,
+            ...(language ? { "Accept-Language": language } : {}),
+          },
+        }
+      );
+
+      if (isErr(result)) {
+        return result;
+      }
+
+      const { name, display_name, address } = unwrap(result);
+      // Open water and remote spots have no address
+      const fallback =
+        display_name ?? formatCoordinates({ latitude, longitude });
+      const place =
+        address?.city ??
+        address?.town ??
+        address?.village ??
+        address?.suburb ??
+        name;
+      const parts = [place, address?.state, address?.country].filter(
+        (part): part is string => Boolean(part)
+      );
+
+      return ok(parts.length > 0 ? parts.join(", ") : fallback);
+    },
+  };
+}
+
+// Wrap a reverse geocoder so repeated lookups for the same spot are cached
+export function withReverseGeocodingCache(
+  geocoder: ReverseGeocoder,
+  cache: Cache,
+  ttl = 30 * DAY
+): ReverseGeocoder {
+  return {
+    reverseGeocode: (coordinates, language) =>
+      cache.getOrLoad(
+        `reverse:${coordinates.latitude.toFixed(3)},${coordinates.longitude.toFixed(3)}:${language ?? ""}`,
+        ttl,
+        () => geocoder.reverseGeocode(coordinates, language)
+      ),
+  };
+}
+
+// Shared geocoder configured from the environment
+export const reverseGeocoder = withReverseGeocodingCache(
+  createReverseGeocoder({
+    baseUrl: config.reverseGeocodingUrl,
+    fetch: upstreamFetch,
+  }),
+  cache
+);
@@ -0,0 +1,145 @@
+import {
+  Attributes,
+  Span,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { AppError } from "../utils/result.js";
+import { Config } from "./config.js";
+
+// Spans are no-ops until a provider is registered, so modules can create
+// them at import time
+const tracer = trace.getTracer("weather-agent");
+
+function createSpanProcessor(
+  telemetry: Config["telemetry"]
+): SpanProcessor | undefined {
+  switch (telemetry.tracesExporter) {
+    case "otlp":
+      return new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: telemetry.otlpEndpoint && `${telemetry.otlpEndpoint}/v1/traces`,
+        })
+      );
+    case "console":
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case "none":
+      return undefined;
+  }
+}
+
+// Makes the processors' tracer provider the global one. Tests register an
+// in-memory exporter here instead of the configured one.
+export function registerTracing(
+  serviceName: string,
+  spanProcessors: SpanProcessor[]
+): NodeTracerProvider {
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: serviceName }),
+    spanProcessors,
+  });
+  provider.register();
+  return provider;
+}
+
+export function setupTracing(
+  telemetry: Config["telemetry"]
+): NodeTracerProvider | undefined {
+  const processor = createSpanProcessor(telemetry);
+  return processor
+    ? registerTracing(telemetry.serviceName, [processor])
+    : undefined;
+}
+
+function isAppError(value: unknown): value is AppError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "kind" in value &&
+    typeof value.kind === "string" &&
+    "message" in value
+  );
+}
+
+// Our functions report failures as Results instead of throwing
+function isErrResult(value: unknown): value is { kind: "err"; error: unknown } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "kind" in value &&
+    value.kind === "err" &&
+    "error" in value
+  );
+}
+
+// Tagged with the error kind so traces can be filtered the same way as the
+// error counts on /metrics. Tools throw their AppError as the cause.
+function failSpan(span: Span, error: unknown) {
+  const appError = isAppError(error)
+    ? error
+    : error instanceof Error && isAppError(error.cause)
+      ? error.cause
+      : undefined;
+
+  if (appError) {
+    span.setAttribute("app.error.kind", appError.kind);
+  }
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message:
+      appError?.message ??
+      (error instanceof Error ? error.message : String(error)),
+  });
+}
+
+// Runs fn in a child span of the current one. An error Result or a thrown
+// error marks the span as failed.
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      const value = await fn(span);
+      if (isErrResult(value)) {
+        failSpan(span, value.error);
+      }
+      return value;
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      failSpan(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Starts a root span, continuing the caller's trace when the headers carry
+// one (Cloud Run adds a traceparent header)
+export function startServerSpan(
+  name: string,
+  attributes: Attributes,
+  headers: Record<string, unknown>
+) {
+  const parent = propagation.extract(context.active(), headers);
+  const span = tracer.startSpan(name, { attributes }, parent);
+  return {
+    span,
+    // Spans started inside run are children of this one
+    run: <T>(fn: () => T): T => context.with(trace.setSpan(parent, span), fn),
+  };
+}
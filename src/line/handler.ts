@@ -0,0 +1,518 @@
+import {
+  Client,
+  EventSource,
+  MessageAPIResponseBase,
+  TextMessage,
+  WebhookEvent,
+} from "@line/bot-sdk";
+import { Coordinates, locationContextFor } from "../domain/locations.js";
+import {
+  UserPreferences,
+  defaultPreferences,
+  describePreferences,
+  parsePreferenceCommand,
+} from "../domain/preferences.js";
+import {
+  DEFAULT_TIMEZONE,
+  formatSubscription,
+  initialSentDate,
+  parseSubscriptionCommand,
+} from "../domain/subscriptions.js";
+import {
+  Logger,
+  RequestContext,
+  logger,
+  requestLogger,
+} from "../infrastructure/logger.js";
+import { metrics } from "../infrastructure/metrics.js";
+import { RateLimiter } from "../infrastructure/rate-limit.js";
+import { withSpan } from "../infrastructure/telemetry.js";
+import { IntentExtractor, intentToPrompt } from "../mastra/intents/index.js";
+import {
+  Conversation,
+  hasConversation,
+  recentMessages,
+  resetConversation,
+} from "../mastra/memory/index.js";
+import { PreferencesRepository } from "../repositories/preferences.js";
+import { SubscriptionsRepository } from "../repositories/subscriptions.js";
+import { WeatherService, weatherPrompt } from "../services/weather.js";
+import { AppError, errors, isErr, unwrap, unwrapErr } from "../utils/result.js";
+import {
+  renderErrorText,
+  renderLocationPicker,
+  renderWeatherMessages,
+} from "./messages.js";
+
+// The parts of the Messaging API client the bot uses
+export type LineClient = Pick<Client, "replyMessage" | "pushMessage">;
+
+export type LineEventHandlerDeps = {
+  client: LineClient;
+  weather: WeatherService;
+  extractIntent: IntentExtractor;
+  conversations: {
+    hasConversation: typeof hasConversation;
+    recentMessages: typeof recentMessages;
+    resetConversation: typeof resetConversation;
+  };
+  preferences: PreferencesRepository;
+  subscriptions: SubscriptionsRepository;
+  // Keyed by LINE user id
+  rateLimiter: RateLimiter;
+  now?: () => Date;
+};
+
+// Memory thread for a LINE user, group or room
+export function getConversation(source: EventSource): Conversation {
+  const id =
+    source.type === "group"
+      ? source.groupId
+      : source.type === "room"
+        ? source.roomId
+        : source.userId;
+  const key = `line:${source.type}:${id ?? "unknown"}`;
+  return { thread: key, resource: key };
+}
+
+// Preferences belong to the sender, even inside a group chat
+export async function loadPreferences(
+  preferences: PreferencesRepository,
+  userId: string | undefined,
+  log: Logger = logger
+): Promise<UserPreferences | undefined> {
+  if (!userId) {
+    return undefined;
+  }
+  const result = await preferences.get(userId);
+  if (isErr(result)) {
+    log.error("Failed to load preferences", { err: unwrapErr(result) });
+    return undefined;
+  }
+  return unwrap(result);
+}
+
+const helpMessage = [
+  "Ask me about the weather, for example:",
+  "• 東京の天気",
+  "• 明日の大阪は傘いる？",
+  "• Is it going to rain in Sapporo this weekend?",
+  "Settings: 'set home 札幌', 'set country JP', 'set timezone America/New_York', 'set units f', 'set wind mph', 'set language en', 'set interests running, museums', 'settings'",
+  "Daily briefing: '毎朝7時に東京の天気', '通知一覧', '通知解除 1'",
+  "Send 'reset' to clear our conversation.",
+].join("\n");
+
+// Enough of the thread for the intent extractor to follow a follow-up
+const INTENT_HISTORY_MESSAGES = 4;
+
+// Commands that clear the conversation thread
+const resetCommands = ["reset", "リセット"];
+
+function isResetCommand(text: string): boolean {
+  return resetCommands.includes(text.toLowerCase().trim());
+}
+
+// Every error a LINE user is shown is counted on /metrics
+function errorText(error: AppError, failedTo?: string): string {
+  metrics.recordError(error, "line");
+  return renderErrorText(error, failedTo);
+}
+
+export function createLineEventHandler(deps: LineEventHandlerDeps) {
+  const now = deps.now ?? (() => new Date());
+
+  const handleSubscriptionCommand = async (
+    userId: string | undefined,
+    commandResult: NonNullable<ReturnType<typeof parseSubscriptionCommand>>
+  ): Promise<string | TextMessage> => {
+    if (isErr(commandResult)) {
+      return errorText(unwrapErr(commandResult));
+    }
+
+    if (!userId) {
+      return "Daily briefings can only be set up from a chat with a known LINE user.";
+    }
+
+    const command = unwrap(commandResult);
+
+    if (command.kind === "list") {
+      const result = await deps.subscriptions.listByUser(userId);
+      if (isErr(result)) {
+        return errorText(unwrapErr(result), "load your briefings");
+      }
+      const subscriptions = unwrap(result);
+      return subscriptions.length > 0
+        ? `Your daily briefings:\n${subscriptions.map(formatSubscription).join("\n")}`
+        : "You have no daily briefings. Try '毎朝7時に東京の天気'.";
+    }
+
+    if (command.kind === "cancel") {
+      const result = await deps.subscriptions.delete(userId, command.id);
+      if (isErr(result)) {
+        return errorText(unwrapErr(result), "cancel the briefing");
+      }
+      return unwrap(result)
+        ? `Cancelled briefing #${command.id}.`
+        : `No briefing #${command.id} found.`;
+    }
+
+    // Check the city exists, and which one is meant, before saving it
+    const preferences = await loadPreferences(deps.preferences, userId);
+    const locationResult = await deps.weather.locateCity(
+      command.city,
+      locationContextFor(preferences)
+    );
+    if (isErr(locationResult)) {
+      const error = unwrapErr(locationResult);
+      if (error.kind === "ambiguous-location") {
+        const time = `${command.hour}:${String(command.minute).padStart(2, "0")}`;
+        return renderLocationPicker(
+          error,
+          (location) => `subscribe ${time} ${location}`
+        );
+      }
+      return errorText(error);
+    }
+
+    const city = unwrap(locationResult);
+    const schedule = {
+      hour: command.hour,
+      minute: command.minute,
+      timezone: city.timezone ?? DEFAULT_TIMEZONE,
+    };
+    const result = await deps.subscriptions.create({
+      userId,
+      city: city.name,
+      ...schedule,
+      lastSentDate: initialSentDate(schedule, now()),
+    });
+    if (isErr(result)) {
+      return errorText(unwrapErr(result), "save the briefing");
+    }
+
+    const subscription = unwrap(result);
+    return `Subscribed: ${formatSubscription(subscription)}\nSend '通知解除 ${subscription.id}' to cancel.`;
+  };
+
+  const handlePreferenceCommand = async (
+    userId: string | undefined,
+    commandResult: NonNullable<ReturnType<typeof parsePreferenceCommand>>
+  ): Promise<string> => {
+    if (isErr(commandResult)) {
+      return errorText(unwrapErr(commandResult));
+    }
+
+    if (!userId) {
+      return "Settings can only be saved from a chat with a known LINE user.";
+    }
+
+    const command = unwrap(commandResult);
+    const result =
+      command.kind === "show"
+        ? await deps.preferences.get(userId)
+        : await deps.preferences.update(userId, command.update);
+
+    if (isErr(result)) {
+      return errorText(unwrapErr(result), "access your settings");
+    }
+
+    const heading = command.kind === "show" ? "Your settings:" : "Saved!";
+    return `${heading}\n${describePreferences(unwrap(result) ?? defaultPreferences)}`;
+  };
+
+  // Reply to a location shared from the LINE app
+  const handleLocationMessage = async (
+    replyToken: string,
+    source: EventSource,
+    location: Coordinates & { title?: string; address?: string },
+    request: RequestContext
+  ): Promise<MessageAPIResponseBase | undefined> => {
+    const { latitude, longitude, title, address } = location;
+    const conversation = getConversation(source);
+    const log = requestLogger(request);
+
+    try {
+      const preferences = await loadPreferences(
+        deps.preferences,
+        source.userId,
+        log
+      );
+      const placeResult = await deps.weather.resolvePlace(
+        {
+          kind: "coordinates",
+          coordinates: { latitude, longitude },
+          // Dropped pins have no title; the address is still better than
+          // a reverse geocoding guess
+          name: title || address || undefined,
+        },
+        request,
+        locationContextFor(preferences)
+      );
+
+      if (isErr(placeResult)) {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: errorText(unwrapErr(placeResult), "get weather information"),
+        });
+      }
+
+      const place = unwrap(placeResult);
+      const [weatherResult, alerts] = await Promise.all([
+        deps.weather.askWeatherAgent(
+          weatherPrompt(place),
+          request,
+          conversation,
+          preferences
+        ),
+        deps.weather.loadAlerts(place, request),
+      ]);
+
+      if (isErr(weatherResult)) {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: errorText(unwrapErr(weatherResult), "get weather information"),
+        });
+      }
+
+      return deps.client.replyMessage(
+        replyToken,
+        renderWeatherMessages({ ...unwrap(weatherResult), alerts }, preferences)
+      );
+    } catch (error) {
+      log.error("Error handling location", { err: error });
+      return deps.client.replyMessage(replyToken, {
+        type: "text",
+        text: errorText(errors.infrastructure("Unexpected error", error)),
+      });
+    }
+  };
+
+  // Event handler
+  const handleWebhookEvent = async (
+    event: WebhookEvent
+  ): Promise<MessageAPIResponseBase | undefined> => {
+    if (event.type !== "message") {
+      return;
+    }
+
+    // LINE's id for the event doubles as the correlation id, so a
+    // redelivered event logs under the same id
+    const request: RequestContext = { correlationId: event.webhookEventId };
+    const log = requestLogger(request);
+    log.info("LINE event", { message: event.message.type });
+
+    const decision = deps.rateLimiter.take(
+      event.source.userId ?? getConversation(event.source).thread
+    );
+
+    if (!decision.allowed) {
+      log.warn("LINE user rate limited");
+      return deps.client.replyMessage(event.replyToken, {
+        type: "text",
+        text: errorText(
+          errors.rateLimited(
+            "You're sending messages a little too fast",
+            decision.retryAfterMs
+          )
+        ),
+      });
+    }
+
+    // A shared location goes straight to the forecast for that point
+    if (event.message.type === "location") {
+      return handleLocationMessage(
+        event.replyToken,
+        event.source,
+        {
+          latitude: event.message.latitude,
+          longitude: event.message.longitude,
+          title: event.message.title,
+          address: event.message.address,
+        },
+        request
+      );
+    }
+
+    // Everything else is text only
+    if (event.message.type !== "text") {
+      return;
+    }
+
+    const { replyToken } = event;
+    const { text } = event.message;
+    const conversation = getConversation(event.source);
+
+    try {
+      if (isResetCommand(text)) {
+        const resetResult =
+          await deps.conversations.resetConversation(conversation);
+
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: isErr(resetResult)
+            ? errorText(unwrapErr(resetResult), "reset the conversation")
+            : "Conversation history has been reset.",
+        });
+      }
+
+      const subscriptionCommand = parseSubscriptionCommand(text);
+
+      if (subscriptionCommand) {
+        const reply = await handleSubscriptionCommand(
+          event.source.userId,
+          subscriptionCommand
+        );
+        return deps.client.replyMessage(
+          replyToken,
+          typeof reply === "string" ? { type: "text", text: reply } : reply
+        );
+      }
+
+      const preferenceCommand = parsePreferenceCommand(text);
+
+      if (preferenceCommand) {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: await handlePreferenceCommand(
+            event.source.userId,
+            preferenceCommand
+          ),
+        });
+      }
+
+      const preferences = await loadPreferences(
+        deps.preferences,
+        event.source.userId,
+        log
+      );
+
+      // Earlier turns let "what about tomorrow?" keep the place discussed
+      const historyResult = await deps.conversations.recentMessages(
+        conversation,
+        INTENT_HISTORY_MESSAGES
+      );
+      if (isErr(historyResult)) {
+        log.error("Failed to load conversation messages", {
+          err: unwrapErr(historyResult),
+        });
+      }
+
+      // Classify the message and extract location, dates and activity
+      const intentResult = await deps.extractIntent(text, {
+        now: now(),
+        timezone: preferences?.timezone ?? undefined,
+        history: isErr(historyResult) ? [] : unwrap(historyResult),
+      });
+
+      if (isErr(intentResult)) {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: errorText(unwrapErr(intentResult)),
+        });
+      }
+
+      const intent = unwrap(intentResult);
+
+      if (intent.type === "help") {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: helpMessage,
+        });
+      }
+
+      // Bare queries use the saved home city
+      let location = intent.location ?? preferences?.homeCity ?? null;
+
+      if (location) {
+        const resolvedResult = await deps.weather.resolveCity(
+          location,
+          locationContextFor(preferences)
+        );
+
+        if (isErr(resolvedResult)) {
+          const error = unwrapErr(resolvedResult);
+
+          // Let the user pick; the chosen name replaces the ambiguous one
+          if (error.kind === "ambiguous-location") {
+            const query = location;
+            return deps.client.replyMessage(
+              replyToken,
+              renderLocationPicker(error, (choice) =>
+                text.includes(query)
+                  ? text.replace(query, choice)
+                  : `Weather in ${choice}`
+              )
+            );
+          }
+
+          // Unknown place or a failed lookup; the agent would only guess
+          return deps.client.replyMessage(replyToken, {
+            type: "text",
+            text: errorText(error),
+          });
+        }
+
+        location = unwrap(resolvedResult);
+      }
+
+      // Without a location we can only answer follow-ups to an earlier request
+      if (!location) {
+        const existingResult =
+          await deps.conversations.hasConversation(conversation);
+
+        if (isErr(existingResult) || !unwrap(existingResult)) {
+          return deps.client.replyMessage(replyToken, {
+            type: "text",
+            text: "Which city? Try '東京の天気' or 'weather in Tokyo'",
+          });
+        }
+      }
+
+      const [weatherResult, alerts] = await Promise.all([
+        deps.weather.askWeatherAgent(
+          intentToPrompt({ ...intent, location }, text),
+          request,
+          conversation,
+          preferences
+        ),
+        location
+          ? deps.weather.loadAlerts(location, request)
+          : Promise.resolve([]),
+      ]);
+
+      if (isErr(weatherResult)) {
+        return deps.client.replyMessage(replyToken, {
+          type: "text",
+          text: errorText(unwrapErr(weatherResult), "get weather information"),
+        });
+      }
+
+      // Render as Flex carousels, falling back to chunked text
+      return deps.client.replyMessage(
+        replyToken,
+        renderWeatherMessages({ ...unwrap(weatherResult), alerts }, preferences)
+      );
+    } catch (error) {
+      log.error("Error handling event", { err: error });
+      return deps.client.replyMessage(replyToken, {
+        type: "text",
+        text: errorText(errors.infrastructure("Unexpected error", error)),
+      });
+    }
+  };
+
+  // One span per event, under the webhook request's span
+  const handleEvent = (
+    event: WebhookEvent
+  ): Promise<MessageAPIResponseBase | undefined> =>
+    withSpan(
+      "line event",
+      {
+        "line.event.type": event.type,
+        "app.correlation_id": event.webhookEventId,
+      },
+      () => handleWebhookEvent(event)
+    );
+
+  return handleEvent;
+}
@@ -0,0 +1,118 @@
+import { FlexBubble, FlexCarousel, FlexMessage } from "@line/bot-sdk";
+import { describe, expect, it } from "bun:test";
+import { tokyoPlan } from "../testing/plans.js";
+import {
+  chunkText,
+  renderDayCarousel,
+  renderTextMessages,
+  renderWeatherMessages,
+} from "./messages.js";
+
+// Every text in a bubble, in order
+function textsOf(bubble: FlexBubble): string[] {
+  return JSON.stringify(bubble)
+    .match(/"text":"[^"]*"/g)!
+    .map((match) => JSON.parse(`{${match}}`).text);
+}
+
+describe("chunkText", () => {
+  it("keeps short text whole", () => {
+    expect(chunkText("one\ntwo", 10)).toEqual(["one\ntwo"]);
+  });
+
+  it("splits on line boundaries", () => {
+    expect(chunkText("first\nsecond\nthird", 12)).toEqual([
+      "first\nsecond",
+      "third",
+    ]);
+  });
+
+  it("hard-splits a line longer than the limit", () => {
+    expect(chunkText("short\nabcdefghij", 4)).toEqual([
+      "shor",
+      "t",
+      "abcd",
+      "efgh",
+      "ij",
+    ]);
+  });
+});
+
+describe("renderTextMessages", () => {
+  it("truncates replies that need more than five messages", () => {
+    const messages = renderTextMessages(
+      Array.from({ length: 7 }, () => "x".repeat(5000)).join("\n")
+    );
+
+    expect(messages).toHaveLength(5);
+    expect(messages[4].text.endsWith("…")).toBe(true);
+    expect(messages[4].text).toHaveLength(5000);
+  });
+});
+
+describe("renderDayCarousel", () => {
+  const [today] = tokyoPlan.days;
+
+  it("shows the summary then morning, afternoon and indoor bubbles", () => {
+    const message = renderDayCarousel(tokyoPlan.location, today);
+    const bubbles = (message.contents as FlexCarousel).contents;
+
+    expect(bubbles.map((bubble) => textsOf(bubble)[0])).toEqual([
+      "📅 Tokyo, Japan 2025-06-14",
+      "🌅 Morning",
+      "🌞 Afternoon",
+      "🏠 Indoor alternatives",
+    ]);
+    expect(textsOf(bubbles[0])).toContain("20°C - 27°C");
+    expect(textsOf(bubbles[0])).toContain("⚠️ UV index 7.4: wear sunscreen");
+    expect(message.altText).toBe(
+      "Tokyo, Japan 2025-06-14: Partly cloudy, 27°C"
+    );
+  });
+
+  it("converts to the user's units", () => {
+    const message = renderDayCarousel(tokyoPlan.location, today, {
+      temperatureUnit: "fahrenheit",
+      windSpeedUnit: "mph",
+    });
+    const [summary] = (message.contents as FlexCarousel).contents;
+
+    expect(textsOf(summary)).toContain("67°F - 81°F");
+  });
+
+  it("leaves out empty activity bubbles", () => {
+    const message = renderDayCarousel(tokyoPlan.location, {
+      ...today,
+      morningActivities: [],
+      indoorAlternatives: [],
+    });
+
+    expect((message.contents as FlexCarousel).contents).toHaveLength(2);
+  });
+});
+
+describe("renderWeatherMessages", () => {
+  it("puts alerts before the day carousels", () => {
+    const messages = renderWeatherMessages({
+      plan: tokyoPlan,
+      activities: "",
+      alerts: [
+        {
+          kind: "heat",
+          severity: "warning",
+          date: "2025-06-14",
+          message: "Heat index up to 34°C",
+        },
+      ],
+    });
+
+    expect(messages.map((message) => message.type)).toEqual(["text", "flex"]);
+    expect((messages[1] as FlexMessage).contents.type).toBe("carousel");
+  });
+
+  it("falls back to text without a plan", () => {
+    expect(renderWeatherMessages({ activities: "Sunny all day" })).toEqual([
+      { type: "text", text: "Sunny all day" },
+    ]);
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  FlexBubble,
+  FlexComponent,
+  FlexMessage,
+  Message,
+  TextMessage,
+} from "@line/bot-sdk";
+import {
+  ActivityPlan,
+  DayPlan,
+  IndoorActivity,
+  OutdoorActivity,
+} from "../domain/activity-plan.js";
+import { WeatherAlert, formatAlerts } from "../domain/alerts.js";
+import { classifyError } from "../domain/errors.js";
+import { describeLocation } from "../domain/locations.js";
+import {
+  Units,
+  formatTemperature,
+  formatWindSpeed,
+  metricUnits,
+} from "../domain/preferences.js";
+import { AmbiguousLocationError, AppError } from "../utils/result.js";
+
+// LINE Messaging API limits
+const MAX_MESSAGES = 5;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_ALT_TEXT_LENGTH = 400;
+const MAX_QUICK_REPLY_ITEMS = 13;
+const MAX_QUICK_REPLY_LABEL_LENGTH = 20;
+
+export type WeatherReply = {
+  plan?: ActivityPlan;
+  activities: string;
+  alerts?: WeatherAlert[];
+};
+
+// Split text into LINE-sized messages, preferring line boundaries
+export function chunkText(text: string, limit = MAX_TEXT_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n")) {
+    const candidate = current ? `${current}\n${line}` : line;
+
+    if (candidate.length <= limit) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    // A single line longer than the limit is hard-split
+    let rest = line;
+    while (rest.length > limit) {
+      chunks.push(rest.slice(0, limit));
+      rest = rest.slice(limit);
+    }
+    current = rest;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+export function renderTextMessages(text: string): TextMessage[] {
+  const chunks = chunkText(text);
+
+  // Truncate rather than drop the reply when it needs too many messages
+  if (chunks.length > MAX_MESSAGES) {
+    const kept = chunks.slice(0, MAX_MESSAGES);
+    kept[MAX_MESSAGES - 1] =
+      `${kept[MAX_MESSAGES - 1].slice(0, MAX_TEXT_LENGTH - 1)}…`;
+    return kept.map((chunk) => ({ type: "text", text: chunk }));
+  }
+
+  return chunks.map((chunk) => ({ type: "text", text: chunk }));
+}
+
+function text(
+  value: string,
+  options: Partial<{
+    size: string;
+    weight: "regular" | "bold";
+    color: string;
+  }> = {}
+): FlexComponent {
+  return { type: "text", text: value, wrap: true, ...options };
+}
+
+function row(label: string, value: string): FlexComponent {
+  return {
+    type: "box",
+    layout: "baseline",
+    contents: [
+      { type: "text", text: label, size: "sm", color: "#888888", flex: 2 },
+      { type: "text", text: value, size: "sm", wrap: true, flex: 3 },
+    ],
+  };
+}
+
+function bubble(title: string, body: FlexComponent[]): FlexBubble {
+  return {
+    type: "bubble",
+    size: "kilo",
+    header: {
+      type: "box",
+      layout: "vertical",
+      contents: [text(title, { weight: "bold", size: "md" })],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "md",
+      contents: body,
+    },
+  };
+}
+
+function renderSummaryBubble(
+  location: string,
+  day: DayPlan,
+  units: Units
+): FlexBubble {
+  const summary = day.weatherSummary;
+  const temperature =
+    summary.temperatureLow !== undefined
+      ? `${formatTemperature(summary.temperatureLow, units.temperatureUnit)} - ${formatTemperature(summary.temperature, units.temperatureUnit)}`
+      : formatTemperature(summary.temperature, units.temperatureUnit);
+
+  const rows = [
+    text(summary.conditions, { size: "sm" }),
+    { type: "separator" } as FlexComponent,
+    row("Temperature", temperature),
+  ];
+
+  if (summary.feelsLike !== undefined) {
+    rows.push(
+      row(
+        "Feels like",
+        formatTemperature(summary.feelsLike, units.temperatureUnit)
+      )
+    );
+  }
+  if (summary.humidity !== undefined) {
+    rows.push(row("Humidity", `${summary.humidity}%`));
+  }
+  if (summary.windSpeed !== undefined) {
+    const gusts =
+      summary.windGust !== undefined
+        ? ` (gusts ${formatWindSpeed(summary.windGust, units.windSpeedUnit)})`
+        : "";
+    rows.push(
+      row(
+        "Wind",
+        `${formatWindSpeed(summary.windSpeed, units.windSpeedUnit)}${gusts}`
+      )
+    );
+  }
+  if (summary.precipitationChance !== undefined) {
+    rows.push(row("Precipitation", `${summary.precipitationChance}%`));
+  }
+  for (const consideration of day.specialConsiderations) {
+    rows.push(text(`⚠️ ${consideration}`, { size: "xs", color: "#aa5500" }));
+  }
+
+  return bubble(`📅 ${location} ${day.date}`, rows);
+}
+
+function renderOutdoorBubble(
+  title: string,
+  activities: OutdoorActivity[]
+): FlexBubble {
+  return bubble(
+    title,
+    activities.flatMap((activity) => [
+      text(activity.name, { weight: "bold", size: "sm" }),
+      text(activity.description, { size: "sm" }),
+      text(`🕒 ${activity.timing}`, { size: "xs", color: "#888888" }),
+      text(activity.note, { size: "xs", color: "#888888" }),
+    ])
+  );
+}
+
+function renderIndoorBubble(activities: IndoorActivity[]): FlexBubble {
+  return bubble(
+    "🏠 Indoor alternatives",
+    activities.flatMap((activity) => [
+      text(activity.name, { weight: "bold", size: "sm" }),
+      text(activity.description, { size: "sm" }),
+      text(`Ideal for: ${activity.idealFor}`, {
+        size: "xs",
+        color: "#888888",
+      }),
+    ])
+  );
+}
+
+// One carousel per day: summary, then morning/afternoon/indoor suggestions
+export function renderDayCarousel(
+  location: string,
+  day: DayPlan,
+  units: Units = metricUnits
+): FlexMessage {
+  const bubbles = [renderSummaryBubble(location, day, units)];
+
+  if (day.morningActivities.length > 0) {
+    bubbles.push(renderOutdoorBubble("🌅 Morning", day.morningActivities));
+  }
+  if (day.afternoonActivities.length > 0) {
+    bubbles.push(renderOutdoorBubble("🌞 Afternoon", day.afternoonActivities));
+  }
+  if (day.indoorAlternatives.length > 0) {
+    bubbles.push(renderIndoorBubble(day.indoorAlternatives));
+  }
+
+  const altText = `${location} ${day.date}: ${day.weatherSummary.conditions}, ${formatTemperature(day.weatherSummary.temperature, units.temperatureUnit)}`;
+
+  return {
+    type: "flex",
+    altText: altText.slice(0, MAX_ALT_TEXT_LENGTH),
+    contents: { type: "carousel", contents: bubbles },
+  };
+}
+
+// Render a weather reply as Flex carousels, or chunked text without a plan
+export function renderWeatherMessages(
+  reply: WeatherReply,
+  units: Units = metricUnits
+): Message[] {
+  if (!reply.plan || reply.plan.days.length === 0) {
+    return renderTextMessages(
+      reply.activities || "Weather information is currently unavailable."
+    );
+  }
+
+  const { location, days } = reply.plan;
+
+  // Alerts go first so they show up in the chat list preview
+  const alertMessages: Message[] =
+    reply.alerts && reply.alerts.length > 0
+      ? [{ type: "text", text: formatAlerts(location, reply.alerts) }]
+      : [];
+
+  return [
+    ...alertMessages,
+    ...days
+      .slice(0, MAX_MESSAGES - alertMessages.length)
+      .map((day) => renderDayCarousel(location, day, units)),
+  ];
+}
+
+// Ask which place was meant; each button resends the request for one candidate
+export function renderLocationPicker(
+  error: AmbiguousLocationError,
+  toText: (location: string) => string
+): TextMessage {
+  const candidates = error.candidates
+    .slice(0, MAX_QUICK_REPLY_ITEMS)
+    .map(describeLocation);
+
+  return {
+    type: "text",
+    text: `Which "${error.query}" do you mean?\n${candidates.map((candidate) => `• ${candidate}`).join("\n")}`,
+    quickReply: {
+      items: candidates.map((candidate) => ({
+        type: "action",
+        action: {
+          type: "message",
+          label:
+            candidate.length > MAX_QUICK_REPLY_LABEL_LENGTH
+              ? `${candidate.slice(0, MAX_QUICK_REPLY_LABEL_LENGTH - 1)}…`
+              : candidate,
+          text: toText(candidate),
+        },
+      })),
+    },
+  };
+}
+
+// Error replies use the same mapping as the HTTP problem responses, so
+// internal details never reach the chat
+export function renderErrorText(error: AppError, failedTo?: string): string {
+  const { userMessage } = classifyError(error);
+  return failedTo
+    ? `Sorry, I couldn't ${failedTo}. ${userMessage}`
+    : userMessage;
+}
@@ -1,46 +1,39 @@
-import { google } from "@ai-sdk/google";
-import { Agent } from "@mastra/core/agent";
-import { weatherTool } from "../tools/index.js";
+import { Agent, MastraLanguageModel } from "@mastra/core/agent";
+import { Memory } from "@mastra/memory";
+import { UserPreferences, languageNames } from "../../domain/preferences.js";
+import { memory } from "../memory/index.js";
+import { models } from "../models/index.js";
+import {
+  WeatherTools,
+  forecastTool,
+  getPreferences,
+  weatherTool,
+} from "../tools/index.js";
 
-export const weatherAgent = new Agent({
-  name: "Weather Agent",
-  instructions: `
+const baseInstructions = `
       You are a local activities and travel expert who excels at weather-based planning. 
       
       When asked about weather, you MUST:
       1. Use the weatherTool to fetch current weather data for the specified location
-      2. Analyze the weather data and provide practical activity recommendations
-      
-      For your response, structure it exactly as follows:
-
-      📅 Today's Weather in [City]
-      ═══════════════════════════
-
-      🌡️ WEATHER SUMMARY
-      • Conditions: [brief description based on actual data]
-      • Temperature: [X°C/Y°F]
-      • Feels Like: [X°C/Y°F]
-      • Humidity: [X%]
-      • Wind: [X km/h with gusts up to Y km/h]
+      2. Use the forecastTool instead when the user asks about a later day (e.g. tomorrow, this weekend)
+      3. Analyze the weather data and provide practical activity recommendations
 
-      🌅 MORNING ACTIVITIES
-      Outdoor:
-      • [Activity Name] - [Brief description including specific location/route]
-        Best timing: [specific time range]
-        Note: [relevant weather consideration]
+      Locations:
+      - When the request gives a latitude and longitude, pass them to the tool as latitude/longitude, with any place name as location
+      - Never guess coordinates for a city name; pass the name as location instead
 
-      🌞 AFTERNOON ACTIVITIES
-      Outdoor:
-      • [Activity Name] - [Brief description including specific location/route]
-        Best timing: [specific time range]
-        Note: [relevant weather consideration]
+      Follow-up questions:
+      - Use the conversation history to resolve what the user is referring to
+      - If a message omits the city ("What about tomorrow?"), reuse the city from the previous request
+      - If a message omits the day ("and in Osaka?"), reuse the day from the previous request
 
-      🏠 INDOOR ALTERNATIVES
-      • [Activity Name] - [Brief description including specific venue]
-        Ideal for: [weather condition that would trigger this alternative]
-
-      ⚠️ SPECIAL CONSIDERATIONS
-      • [Any relevant weather warnings, humidity concerns, wind conditions, etc.]
+      Your response is returned as a structured activity plan:
+      - location: the city name as resolved by the tool
+      - days: one entry per requested day (just today unless another day was asked for)
+        - weatherSummary: conditions, temperature, feels like, humidity, wind speed and gusts from the actual data
+        - morningActivities / afternoonActivities: outdoor activities with a specific location or route, best timing and a weather note
+        - indoorAlternatives: specific venues and the weather condition that would trigger each one
+        - specialConsiderations: any relevant weather warnings, humidity concerns, wind conditions, etc.
 
       Guidelines:
       - Suggest 2-3 time-specific outdoor activities
@@ -51,8 +44,57 @@ export const weatherAgent = new Agent({
       - Consider activity intensity based on temperature and humidity
       - Keep descriptions concise but informative
 
-      IMPORTANT: Always use the weatherTool first to get real weather data before making recommendations.
-`,
-  model: google(process.env.MODEL ?? "gemini-2.5-pro"),
-  tools: { weatherTool },
+      IMPORTANT: Always use the weatherTool or forecastTool first to get real weather data before making recommendations.
+`;
+
+// Personalisation for users who saved preferences
+function preferenceInstructions(preferences: UserPreferences): string {
+  const lines = [
+    "",
+    "      User preferences:",
+    preferences.homeCity
+      ? `      - Home city: ${preferences.homeCity}. Use it when the user does not name a location.`
+      : "",
+    `      - Units: mention temperatures in ${preferences.temperatureUnit === "fahrenheit" ? "°F" : "°C"} and wind in ${preferences.windSpeedUnit === "mph" ? "mph" : "km/h"} in any text. Keep the numeric weatherSummary fields in °C and km/h.`,
+    preferences.language
+      ? `      - Language: write all text fields in ${languageNames[preferences.language]}.`
+      : "",
+    preferences.interests.length > 0
+      ? `      - Interests: ${preferences.interests.join(", ")}. Prioritise activities that match these.`
+      : "",
+  ];
+  return lines.filter((line) => line !== "").join("\n");
+}
+
+export type WeatherAgentDeps = {
+  model: MastraLanguageModel;
+  tools: Pick<WeatherTools, "weatherTool" | "forecastTool">;
+  // Without memory every request starts a fresh conversation
+  memory?: Memory;
+};
+
+export function createWeatherAgent(deps: WeatherAgentDeps) {
+  return new Agent({
+    name: "Weather Agent",
+    instructions: ({ runtimeContext }) => {
+      const preferences = getPreferences(runtimeContext);
+      return preferences
+        ? `${baseInstructions}\n${preferenceInstructions(preferences)}`
+        : baseInstructions;
+    },
+    model: deps.model,
+    tools: {
+      weatherTool: deps.tools.weatherTool,
+      forecastTool: deps.tools.forecastTool,
+    },
+    memory: deps.memory,
+  });
+}
+
+export type WeatherAgent = ReturnType<typeof createWeatherAgent>;
+
+export const weatherAgent = createWeatherAgent({
+  model: models.get("planning"),
+  tools: { weatherTool, forecastTool },
+  memory,
 });
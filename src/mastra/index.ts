@@ -1,13 +1,12 @@
 import { Mastra } from '@mastra/core/mastra';
-import { PinoLogger } from '@mastra/loggers';
 import { weatherWorkflow } from './workflows/index.js';
 import { weatherAgent } from './agents/index.js';
+import { storage } from './memory/index.js';
+import { logger } from '../infrastructure/logger.js';
 
 export const mastra = new Mastra({
   workflows: { weatherWorkflow },
   agents: { weatherAgent },
-  logger: new PinoLogger({
-    name: 'Mastra',
-    level: 'info',
-  }),
+  storage,
+  logger,
 });
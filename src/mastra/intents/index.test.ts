@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import { createScriptedModel } from "../../testing/fake-model.js";
+import { err, errors, ok } from "../../utils/result.js";
+import { Intent, createIntentExtractor } from "./index.js";
+
+// 09:00 in Tokyo
+const now = new Date("2025-06-14T00:00:00Z");
+
+const forecast: Intent = {
+  type: "forecast",
+  location: "大阪",
+  dateRange: { start: "2025-06-15", end: "2025-06-15" },
+  activityType: null,
+};
+
+describe("createIntentExtractor", () => {
+  it("returns the intent the model extracted", async () => {
+    const model = createScriptedModel([{ text: JSON.stringify(forecast) }]);
+    const extract = createIntentExtractor(model);
+
+    expect(await extract("明日の大阪は傘いる？", { now })).toEqual(
+      ok(forecast)
+    );
+  });
+
+  it("tells the model today's date", async () => {
+    const model = createScriptedModel([{ text: JSON.stringify(forecast) }]);
+    const extract = createIntentExtractor(model);
+
+    await extract("明日の大阪は傘いる？", { now });
+
+    expect(JSON.stringify(model.calls[0].prompt)).toContain(
+      "Today is 2025-06-14."
+    );
+  });
+
+  it("takes today from the user's timezone, not UTC", async () => {
+    const model = createScriptedModel([
+      { text: JSON.stringify(forecast) },
+      { text: JSON.stringify(forecast) },
+    ]);
+    const extract = createIntentExtractor(model);
+    // 07:30 in Tokyo, still the previous day in UTC and New York
+    const morning = new Date("2025-06-14T22:30:00Z");
+
+    await extract("明日の大阪は傘いる？", { now: morning });
+    await extract("Rain tomorrow?", {
+      now: morning,
+      timezone: "America/New_York",
+    });
+
+    expect(JSON.stringify(model.calls[0].prompt)).toContain(
+      "Today is 2025-06-15."
+    );
+    expect(JSON.stringify(model.calls[1].prompt)).toContain(
+      "Today is 2025-06-14."
+    );
+  });
+
+  it("gives the model the earlier conversation for follow-ups", async () => {
+    const model = createScriptedModel([{ text: JSON.stringify(forecast) }]);
+    const extract = createIntentExtractor(model);
+
+    await extract("what about tomorrow?", {
+      now,
+      history: [
+        { role: "user", content: "大阪の天気" },
+        { role: "assistant", content: "Osaka is sunny today, 28°C." },
+      ],
+    });
+
+    expect(JSON.stringify(model.calls[0].prompt)).toContain(
+      "Earlier in this conversation:\\nUser: 大阪の天気\\nBot: Osaka is sunny today, 28°C.\\nMessage: what about tomorrow?"
+    );
+  });
+
+  it("turns away messages that aren't about the weather", async () => {
+    const model = createScriptedModel([
+      { text: JSON.stringify({ ...forecast, type: "unknown" }) },
+    ]);
+    const extract = createIntentExtractor(model);
+
+    expect(await extract("tell me a joke", { now })).toEqual(
+      err(
+        errors.validation(
+          "Please ask me about the weather, e.g. '東京の天気' or 'weather in Tokyo'"
+        )
+      )
+    );
+  });
+
+  it("reports a model failure", async () => {
+    const model = createScriptedModel([{ error: new Error("overloaded") }]);
+    const extract = createIntentExtractor(model);
+
+    expect(await extract("東京の天気", { now })).toMatchObject(
+      err({ kind: "llm-failure", message: "Failed to classify the message" })
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { Agent, MastraLanguageModel } from "@mastra/core/agent";
+import { z } from "zod";
+import { llmLimiter } from "../../infrastructure/rate-limit.js";
+import { withSpan } from "../../infrastructure/telemetry.js";
+import {
+  AppError,
+  Result,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../../utils/result.js";
+import { ConversationMessage } from "../memory/index.js";
+import { models } from "../models/index.js";
+
+export const intentSchema = z.object({
+  type: z
+    .enum([
+      "current-weather",
+      "forecast",
+      "activity-suggestion",
+      "help",
+      "unknown",
+    ])
+    .describe("What the user is asking for"),
+  location: z
+    .string()
+    .nullable()
+    .describe("City or place name, in the language the user wrote it"),
+  dateRange: z
+    .object({
+      start: z.string().describe("Start date in YYYY-MM-DD format"),
+      end: z.string().describe("End date in YYYY-MM-DD format"),
+    })
+    .nullable()
+    .describe("Dates the user asked about, or null for right now"),
+  activityType: z
+    .string()
+    .nullable()
+    .describe("Activity the user mentioned (e.g. running, picnic)"),
+});
+
+export type Intent = z.infer<typeof intentSchema>;
+
+export type IntentContext = {
+  now?: Date;
+  // Where "today" is, e.g. the user's saved timezone
+  timezone?: string;
+  // Earlier messages in the thread, oldest first, so follow-ups such as
+  // "what about tomorrow?" keep the place being discussed
+  history?: ConversationMessage[];
+};
+
+export type IntentExtractor = (
+  text: string,
+  context?: IntentContext
+) => Promise<Result<Intent, AppError>>;
+
+// Most of the bot's users are in Japan
+export const DEFAULT_INTENT_TIMEZONE = "Asia/Tokyo";
+
+// Long weather replies only need their opening to give the context
+const HISTORY_MESSAGE_LENGTH = 300;
+
+const instructions = `
+    You classify messages sent to a weather bot and extract their entities.
+    Messages may be in Japanese or English.
+
+    Intent types:
+    - current-weather: the weather right now ("東京の天気", "weather in Tokyo")
+    - forecast: the weather on a later day or over several days ("明日の大阪は傘いる？", "Is it going to rain in Sapporo this weekend?")
+    - activity-suggestion: what to do given the weather ("What should I do in Kyoto today?")
+    - help: how to use the bot ("help", "使い方")
+    - unknown: anything not about weather or activities
+
+    Rules:
+    - location is null when the message does not name a place. Never guess a default city.
+    - Resolve relative dates ("明日", "this weekend") against today's date given in the message.
+    - Follow-ups ("what about tomorrow?", "週末は？") continue the earlier conversation when one is given: take the location and intent from it instead of answering unknown.
+    - dateRange is null for current-weather unless a date is given.
+    - activityType is null unless the user mentions an activity.
+`;
+
+// YYYY-MM-DD in the timezone; the UTC date is a day behind in Japan
+// every morning before 09:00
+function localDate(now: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+function intentPrompt(
+  text: string,
+  today: string,
+  history: ConversationMessage[]
+): string {
+  const earlier = history.map(
+    ({ role, content }) =>
+      `${role === "user" ? "User" : "Bot"}: ${content.slice(0, HISTORY_MESSAGE_LENGTH)}`
+  );
+  return [
+    `Today is ${today}.`,
+    ...(earlier.length > 0
+      ? ["Earlier in this conversation:", ...earlier]
+      : []),
+    `Message: ${text}`,
+  ].join("\n");
+}
+
+export function createIntentExtractor(
+  model: MastraLanguageModel
+): IntentExtractor {
+  const agent = new Agent({
+    name: "Intent Extractor",
+    instructions,
+    model,
+  });
+
+  return async (text, context = {}) => {
+    const {
+      now = new Date(),
+      timezone = DEFAULT_INTENT_TIMEZONE,
+      history = [],
+    } = context;
+
+    const response = await withSpan(
+      "intent-extractor generate",
+      { "gen_ai.agent.name": "intent-extractor" },
+      () =>
+        fromPromise(
+          llmLimiter.run(() =>
+            agent.generate(
+              [
+                {
+                  role: "user",
+                  content: intentPrompt(
+                    text,
+                    localDate(now, timezone),
+                    history
+                  ),
+                },
+              ],
+              { output: intentSchema }
+            )
+          ),
+          (error): AppError =>
+            errors.llm("Failed to classify the message", error)
+        )
+    );
+
+    if (isErr(response)) {
+      return response;
+    }
+
+    const parsed = intentSchema.safeParse(unwrap(response).object);
+
+    if (!parsed.success || parsed.data.type === "unknown") {
+      return err(
+        errors.validation(
+          "Please ask me about the weather, e.g. '東京の天気' or 'weather in Tokyo'"
+        )
+      );
+    }
+
+    return ok(parsed.data);
+  };
+}
+
+// Build the agent prompt for an extracted intent
+export function intentToPrompt(intent: Intent, text: string): string {
+  const location = intent.location ?? "the location from our conversation";
+  const dates = intent.dateRange
+    ? ` from ${intent.dateRange.start} to ${intent.dateRange.end}`
+    : "";
+
+  const request =
+    intent.type === "forecast"
+      ? `Get the weather forecast for ${location}${dates} and suggest appropriate activities for each day.`
+      : intent.type === "activity-suggestion"
+        ? `Get the weather for ${location}${dates} and suggest ${intent.activityType ?? "appropriate"} activities based on the weather conditions.`
+        : `Get the current weather for ${location} and suggest appropriate activities based on the weather conditions.`;
+
+  return `${request}\nUser message: ${text}`;
+}
+
+export const extractIntent = createIntentExtractor(models.get("intent"));
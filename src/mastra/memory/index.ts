@@ -0,0 +1,96 @@
+import { LibSQLStore } from "@mastra/libsql";
+import { Memory } from "@mastra/memory";
+import { config } from "../../infrastructure/config.js";
+import {
+  AppError,
+  Result,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../../utils/result.js";
+
+// Local SQLite file shared by Mastra storage and agent memory
+export const storage = new LibSQLStore({
+  url: config.storage.mastraDbUrl,
+});
+
+export const memory = new Memory({
+  storage,
+  options: {
+    lastMessages: 10,
+    semanticRecall: false,
+    threads: {
+      generateTitle: false,
+    },
+  },
+});
+
+// Conversation identifiers passed to agent.generate
+export type Conversation = {
+  thread: string;
+  resource: string;
+};
+
+// A message from an earlier turn, as plain text
+export type ConversationMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// The last few messages in the thread, oldest first; empty for a new thread
+export async function recentMessages(
+  conversation: Conversation,
+  limit: number
+): Promise<Result<ConversationMessage[], AppError>> {
+  const queryResult = await fromPromise(
+    memory.query({
+      threadId: conversation.thread,
+      selectBy: { last: limit },
+    }),
+    (error): AppError =>
+      errors.infrastructure("Failed to load conversation messages", error)
+  );
+
+  if (isErr(queryResult)) {
+    return queryResult;
+  }
+
+  return ok(
+    unwrap(queryResult)
+      .uiMessages.filter(
+        (message): message is typeof message & ConversationMessage =>
+          (message.role === "user" || message.role === "assistant") &&
+          message.content.length > 0
+      )
+      .slice(-limit)
+      .map(({ role, content }) => ({ role, content }))
+  );
+}
+
+export async function hasConversation(
+  conversation: Conversation
+): Promise<Result<boolean, AppError>> {
+  const threadResult = await fromPromise(
+    memory.getThreadById({ threadId: conversation.thread }),
+    (error): AppError =>
+      errors.infrastructure("Failed to load conversation thread", error)
+  );
+
+  if (isErr(threadResult)) {
+    return threadResult;
+  }
+
+  return ok(unwrap(threadResult) !== null);
+}
+
+export async function resetConversation(
+  conversation: Conversation
+): Promise<Result<void, AppError>> {
+  return fromPromise(
+    memory.deleteThread(conversation.thread),
+    (error): AppError =>
+      errors.infrastructure("Failed to reset conversation thread", error)
+  );
+}
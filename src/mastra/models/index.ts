@@ -0,0 +1,193 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import { MastraLanguageModel } from "@mastra/core/agent";
+import { LanguageModelV1StreamPart, wrapLanguageModel } from "ai";
+import { Config, ModelSpec, config } from "../../infrastructure/config.js";
+import { logger } from "../../infrastructure/logger.js";
+import { TokenUsage, metrics } from "../../infrastructure/metrics.js";
+import { withSpan } from "../../infrastructure/telemetry.js";
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  ok,
+} from "../../utils/result.js";
+
+// intent: classifying LINE messages, planning: weather agents' activity plans
+export type ModelRole = keyof Omit<Config["models"], "fallback">;
+
+export type ModelRegistry = {
+  get: (role: ModelRole) => MastraLanguageModel;
+};
+
+function createProviders(providers: Config["providers"]) {
+  const google = createGoogleGenerativeAI({ apiKey: providers.googleApiKey });
+  const openai = createOpenAI({ apiKey: providers.openaiApiKey });
+  const anthropic = createAnthropic({ apiKey: providers.anthropicApiKey });
+  // Local servers such as Ollama usually ignore the key, but the SDK wants one
+  const openaiCompatible = createOpenAI({
+    name: "openai-compatible",
+    baseURL: providers.openaiCompatibleBaseUrl,
+    apiKey: providers.openaiCompatibleApiKey ?? "not-needed",
+    compatibility: "compatible",
+  });
+
+  return (spec: ModelSpec): MastraLanguageModel => {
+    switch (spec.provider) {
+      case "google":
+        return google(spec.modelId);
+      case "openai":
+        return openai(spec.modelId);
+      case "anthropic":
+        return anthropic(spec.modelId);
+      case "openai-compatible":
+        return openaiCompatible(spec.modelId);
+    }
+  };
+}
+
+// What each provider needs before a call can succeed
+const credentials: Record<
+  ModelSpec["provider"],
+  (providers: Config["providers"]) => string | undefined
+> = {
+  google: (providers) => providers.googleApiKey,
+  openai: (providers) => providers.openaiApiKey,
+  anthropic: (providers) => providers.anthropicApiKey,
+  "openai-compatible": (providers) => providers.openaiCompatibleBaseUrl,
+};
+
+// Whether every configured model has its provider's credentials; checked
+// for readiness since a missing key only fails at the first generation
+export function checkModelCredentials(
+  models: Config["models"],
+  providers: Config["providers"]
+): Result<void, ValidationError> {
+  const missing = Object.entries(models).flatMap(([role, spec]) =>
+    spec && !credentials[spec.provider](providers)
+      ? [`${role} (${spec.provider})`]
+      : []
+  );
+
+  return missing.length === 0
+    ? ok(undefined)
+    : err(
+        errors.validation(
+          `Missing provider credentials for ${missing.join(", ")}`
+        )
+      );
+}
+
+function describe(model: MastraLanguageModel): string {
+  return `${model.provider}/${model.modelId}`;
+}
+
+// A span per model call with its token usage, which also goes to /metrics.
+// A stream's span ends once it starts; its tokens are counted at the end.
+export function withTelemetry(model: MastraLanguageModel): MastraLanguageModel {
+  const name = describe(model);
+  const attributes = {
+    "gen_ai.system": model.provider,
+    "gen_ai.request.model": model.modelId,
+  };
+  const recordUsage = (usage: TokenUsage) => {
+    metrics.recordTokens(name, usage);
+    return {
+      "gen_ai.usage.input_tokens": usage.promptTokens,
+      "gen_ai.usage.output_tokens": usage.completionTokens,
+    };
+  };
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: ({ doGenerate }) =>
+        withSpan(`llm ${name}`, attributes, async (span) => {
+          const result = await doGenerate();
+          span.setAttributes(recordUsage(result.usage));
+          return result;
+        }),
+      wrapStream: ({ doStream }) =>
+        withSpan(`llm ${name} stream`, attributes, async () => {
+          const result = await doStream();
+          const countTokens = new TransformStream<
+            LanguageModelV1StreamPart,
+            LanguageModelV1StreamPart
+          >({
+            transform: (part, controller) => {
+              if (part.type === "finish") {
+                recordUsage(part.usage);
+              }
+              controller.enqueue(part);
+            },
+          });
+          return { ...result, stream: result.stream.pipeThrough(countTokens) };
+        }),
+    },
+  });
+}
+
+// Retry a failed call once on the secondary model. Streams only fall back
+// when they fail to start; a stream that breaks halfway still fails.
+export function withFallback(
+  primary: MastraLanguageModel,
+  fallback: MastraLanguageModel
+): MastraLanguageModel {
+  return wrapLanguageModel({
+    model: primary,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        try {
+          return await doGenerate();
+        } catch (error) {
+          // A cancelled request shouldn't be sent again
+          if (params.abortSignal?.aborted) {
+            throw error;
+          }
+          logger.warn("Model failed, falling back", {
+            model: describe(primary),
+            fallback: describe(fallback),
+            err: error,
+          });
+          return fallback.doGenerate(params);
+        }
+      },
+      wrapStream: async ({ doStream, params }) => {
+        try {
+          return await doStream();
+        } catch (error) {
+          if (params.abortSignal?.aborted) {
+            throw error;
+          }
+          logger.warn("Model failed, falling back", {
+            model: describe(primary),
+            fallback: describe(fallback),
+            err: error,
+          });
+          return fallback.doStream(params);
+        }
+      },
+    },
+  });
+}
+
+export function createModelRegistry(
+  models: Config["models"],
+  providers: Config["providers"]
+): ModelRegistry {
+  const provide = createProviders(providers);
+  const toModel = (spec: ModelSpec) => withTelemetry(provide(spec));
+  const fallback = models.fallback ? toModel(models.fallback) : undefined;
+
+  return {
+    get: (role) => {
+      const model = toModel(models[role]);
+      return fallback ? withFallback(model, fallback) : model;
+    },
+  };
+}
+
+// Shared registry configured from the environment
+export const models = createModelRegistry(config.models, config.providers);
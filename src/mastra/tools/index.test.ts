@@ -0,0 +1,173 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { describe, expect, it, spyOn } from "bun:test";
+import { defaultPreferences } from "../../domain/preferences.js";
+import { logger } from "../../infrastructure/logger.js";
+import { createOpenMeteoClient } from "../../infrastructure/open-meteo.js";
+import { createReverseGeocoder } from "../../infrastructure/reverse-geocoding.js";
+import { createOpenMeteoStandIn } from "../../testing/open-meteo.js";
+import { isErr, unwrap, unwrapErr } from "../../utils/result.js";
+import { WeatherRuntimeContext, createWeatherTools } from "./index.js";
+
+function setup() {
+  const openMeteo = createOpenMeteoStandIn();
+  const tools = createWeatherTools({
+    openMeteo: createOpenMeteoClient({ fetch: openMeteo.fetch }),
+    reverseGeocoder: createReverseGeocoder({ fetch: openMeteo.fetch }),
+  });
+  return { openMeteo, tools };
+}
+
+describe("getWeather", () => {
+  it("returns the current conditions for a city", async () => {
+    const { tools } = setup();
+
+    const result = await tools.getWeather({ kind: "name", name: "Tokyo" });
+
+    expect(unwrap(result)).toEqual({
+      temperature: 24.3,
+      feelsLike: 25.9,
+      humidity: 68,
+      windSpeed: 11.2,
+      windGust: 24.8,
+      conditions: "Partly cloudy",
+      location: "Tokyo, Japan",
+    });
+  });
+
+  it("asks which Springfield was meant", async () => {
+    const { tools } = setup();
+
+    const result = await tools.getWeather({
+      kind: "name",
+      name: "Springfield",
+    });
+
+    expect(isErr(result)).toBe(true);
+    expect(unwrapErr(result).kind).toBe("ambiguous-location");
+  });
+
+  it("uses a qualifier to pick one", async () => {
+    const { tools } = setup();
+
+    const result = await tools.getWeather({
+      kind: "name",
+      name: "Springfield, Illinois",
+    });
+
+    expect(unwrap(result).location).toBe(
+      "Springfield, Illinois, United States"
+    );
+  });
+});
+
+describe("getForecast", () => {
+  it("returns the requested number of days", async () => {
+    const { tools } = setup();
+
+    const result = await tools.getForecast("Tokyo", 2);
+
+    const forecast = unwrap(result);
+    expect(forecast.location).toBe("Tokyo, Japan");
+    expect(forecast.days.map((day) => day.condition)).toEqual([
+      "Partly cloudy",
+      "Heavy rain",
+    ]);
+  });
+
+  it("passes upstream failures on", async () => {
+    const { openMeteo, tools } = setup();
+    openMeteo.failWith(500);
+
+    const result = await tools.getForecast("Tokyo", 1);
+
+    expect(unwrapErr(result).kind).toBe("weather-api");
+  });
+});
+
+describe("locatePlace", () => {
+  it("names an unnamed point by reverse geocoding", async () => {
+    const { openMeteo, tools } = setup();
+
+    const result = await tools.locatePlace({
+      kind: "coordinates",
+      coordinates: { latitude: 35.66, longitude: 139.7 },
+    });
+
+    expect(unwrap(result).name).toBe("Shibuya, Tokyo, Japan");
+    expect(openMeteo.requests.map((url) => url.pathname)).toEqual(["/reverse"]);
+  });
+
+  it("falls back to the coordinates when reverse geocoding fails", async () => {
+    const { openMeteo, tools } = setup();
+    openMeteo.failWith(503);
+
+    const result = await tools.locatePlace({
+      kind: "coordinates",
+      coordinates: { latitude: 35.66, longitude: 139.7 },
+    });
+
+    expect(unwrap(result).coordinates).toEqual({
+      latitude: 35.66,
+      longitude: 139.7,
+    });
+  });
+});
+
+describe("weatherTool", () => {
+  it("falls back to the saved home city", async () => {
+    const { tools } = setup();
+    const runtimeContext = new RuntimeContext<WeatherRuntimeContext>();
+    runtimeContext.set("preferences", {
+      ...defaultPreferences,
+      homeCity: "Tokyo",
+    });
+
+    const output = await tools.weatherTool.execute!({
+      context: {},
+      runtimeContext,
+    });
+
+    expect(output.location).toBe("Tokyo, Japan");
+  });
+
+  it("explains the choices for an ambiguous city to the model", async () => {
+    const { tools } = setup();
+
+    const execution = tools.weatherTool.execute!({
+      context: { location: "Springfield" },
+      runtimeContext: new RuntimeContext(),
+    });
+
+    await expect(execution).rejects.toThrow("Ask the user which one they mean");
+  });
+
+  it("needs a location when no home city is saved", async () => {
+    const { tools } = setup();
+
+    const execution = tools.weatherTool.execute!({
+      context: {},
+      runtimeContext: new RuntimeContext(),
+    });
+
+    await expect(execution).rejects.toThrow("No location given");
+  });
+
+  it("logs failures under the request's correlation id", async () => {
+    const { tools } = setup();
+    const warn = spyOn(logger, "warn").mockImplementation(() => {});
+    const runtimeContext = new RuntimeContext<WeatherRuntimeContext>();
+    runtimeContext.set("correlationId", "req-123");
+
+    const execution = tools.weatherTool.execute!({
+      context: { location: "Atlantis" },
+      runtimeContext,
+    });
+
+    await expect(execution).rejects.toThrow("not found");
+    expect(warn).toHaveBeenCalledWith(
+      "Tool failed",
+      expect.objectContaining({ correlationId: "req-123", tool: "get-weather" })
+    );
+    warn.mockRestore();
+  });
+});
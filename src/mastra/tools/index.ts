@@ -1,38 +1,149 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import {
+  Coordinates,
+  LocationContext,
+  PlaceQuery,
+  describeLocation,
+  formatCoordinates,
+  locationContextFor,
+} from "../../domain/locations.js";
+import { UserPreferences } from "../../domain/preferences.js";
+import {
+  Logger,
+  RequestRuntimeContext,
+  logger,
+  runtimeLogger,
+} from "../../infrastructure/logger.js";
+import {
+  CurrentWeather,
+  DailyForecast,
+  GeocodedLocation,
+  OpenMeteoClient,
+  getWeatherCondition,
+  openMeteo,
+} from "../../infrastructure/open-meteo.js";
+import {
+  ReverseGeocoder,
+  reverseGeocoder,
+} from "../../infrastructure/reverse-geocoding.js";
+import { withSpan } from "../../infrastructure/telemetry.js";
 import {
   AppError,
   Result,
+  chain,
+  chainResult,
   err,
   errors,
-  fromPromise,
-  isErr,
+  match,
   ok,
-  unwrap,
-  unwrapErr,
+  toMastraError,
 } from "../../utils/result.js";
 
-// Type declarations instead of interfaces
-type GeocodingResponse = {
-  results: {
-    latitude: number;
-    longitude: number;
-    name: string;
-  }[];
+// Values passed to the agent and tools through Mastra's RuntimeContext
+export type WeatherRuntimeContext = RequestRuntimeContext & {
+  preferences: UserPreferences;
 };
 
-type WeatherResponse = {
-  current: {
-    time: string;
-    temperature_2m: number;
-    apparent_temperature: number;
-    relative_humidity_2m: number;
-    wind_speed_10m: number;
-    wind_gusts_10m: number;
-    weather_code: number;
+export function getPreferences(
+  runtimeContext: RuntimeContext
+): UserPreferences | undefined {
+  return (runtimeContext as RuntimeContext<WeatherRuntimeContext>).get(
+    "preferences"
+  );
+}
+
+// Geocoding hints from the user's language and saved country
+function getLocationContext(runtimeContext: RuntimeContext): LocationContext {
+  return locationContextFor(getPreferences(runtimeContext));
+}
+
+// Tool errors reach the model as text, so spell out the choices.
+// Mastra expects thrown errors, so we need to throw here at the boundary
+function throwToolError(log: Logger, toolId: string) {
+  return (error: AppError): never => {
+    log.warn("Tool failed", { tool: toolId, err: error });
+    if (error.kind === "ambiguous-location") {
+      throw toMastraError(
+        error,
+        `${error.message}. Ask the user which one they mean: ${error.candidates.map(describeLocation).join("; ")}`
+      );
+    }
+    throw toMastraError(error);
+  };
+}
+
+// Tools take a place name, a point (e.g. a shared LINE location) or neither
+const placeInputSchema = z.object({
+  location: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "City name, optionally with region or country (e.g. 'Portland, Maine'); with coordinates, the name to show for them; omit both to use the user's saved home city"
+    ),
+  latitude: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Latitude of the location; give together with longitude"),
+  longitude: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Longitude of the location; give together with latitude"),
+});
+
+type PlaceInput = z.infer<typeof placeInputSchema>;
+
+// Prefer coordinates, then the name, then the user's saved home city
+function resolvePlace(runtimeContext: RuntimeContext) {
+  return (input: PlaceInput): Result<PlaceQuery, AppError> => {
+    const { location, latitude, longitude } = input;
+
+    if (latitude !== undefined || longitude !== undefined) {
+      if (latitude === undefined || longitude === undefined) {
+        return err(
+          errors.validation(
+            "latitude and longitude must be given together",
+            latitude === undefined ? "latitude" : "longitude"
+          )
+        );
+      }
+      return ok({
+        kind: "coordinates",
+        coordinates: { latitude, longitude },
+        name: location,
+      });
+    }
+
+    const name = location || getPreferences(runtimeContext)?.homeCity;
+    if (!name) {
+      return err(
+        errors.validation(
+          "No location given and no home city saved",
+          "location"
+        )
+      );
+    }
+    return ok({ kind: "name", name });
   };
+}
+
+export type LocatedPlace = {
+  coordinates: Coordinates;
+  name: string;
 };
 
+function toPlaceQuery(location: string | PlaceQuery): PlaceQuery {
+  return typeof location === "string"
+    ? { kind: "name", name: location }
+    : location;
+}
+
 type WeatherData = {
   temperature: number;
   feelsLike: number;
@@ -43,117 +154,245 @@ type WeatherData = {
   location: string;
 };
 
-export const weatherTool = createTool({
-  id: "get-weather",
-  description: "Get current weather for a location",
-  inputSchema: z.object({
-    location: z.string().describe("City name"),
-  }),
-  outputSchema: z.object({
-    temperature: z.number(),
-    feelsLike: z.number(),
-    humidity: z.number(),
-    windSpeed: z.number(),
-    windGust: z.number(),
-    conditions: z.string(),
-    location: z.string(),
-  }),
-  execute: async ({ context }) => {
-    const result = await getWeather(context.location);
-
-    // Handle Result type for Mastra tool
-    if (isErr(result)) {
-      // Mastra expects thrown errors, so we need to throw here at the boundary
-      const error = unwrapErr(result);
-      throw new Error(error.message);
-    }
+const weatherOutputSchema = z.object({
+  temperature: z.number(),
+  feelsLike: z.number(),
+  humidity: z.number(),
+  windSpeed: z.number(),
+  windGust: z.number(),
+  conditions: z.string(),
+  location: z.string(),
+});
 
-    return unwrap(result);
-  },
+const dailyForecastSchema = z.object({
+  date: z.string(),
+  maxTemp: z.number(),
+  minTemp: z.number(),
+  apparentTempMax: z.number(),
+  windGustMax: z.number(),
+  precipitationSum: z.number(),
+  precipitationChance: z.number().nullable(),
+  weatherCode: z.number(),
+  condition: z.string(),
+  sunrise: z.string(),
+  sunset: z.string(),
+  uvIndexMax: z.number().nullable(),
 });
 
-const getWeather = async (
-  location: string
-): Promise<Result<WeatherData, AppError>> => {
-  // Fetch geocoding data
-  const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`;
+export const forecastSchema = z.object({
+  location: z.string(),
+  days: z.array(dailyForecastSchema),
+});
 
-  const geocodingResult = await fromPromise<GeocodingResponse, AppError>(
-    fetch(geocodingUrl).then((res) => res.json() as Promise<GeocodingResponse>),
-    (error): AppError =>
-      errors.infrastructure("Failed to fetch geocoding data", error)
-  );
+export type ForecastData = z.infer<typeof forecastSchema>;
 
-  if (isErr(geocodingResult)) {
-    return err(unwrapErr(geocodingResult));
-  }
+function toLocatedPlace(location: GeocodedLocation): LocatedPlace {
+  return {
+    coordinates: {
+      latitude: location.latitude,
+      longitude: location.longitude,
+    },
+    name: describeLocation(location),
+  };
+}
 
-  const geocodingData = unwrap(geocodingResult);
+function toWeatherData(location: string) {
+  return (current: CurrentWeather): WeatherData => ({
+    temperature: current.temperature,
+    feelsLike: current.feelsLike,
+    humidity: current.humidity,
+    windSpeed: current.windSpeed,
+    windGust: current.windGust,
+    conditions: getWeatherCondition(current.weatherCode),
+    location,
+  });
+}
 
-  // Validate location exists
-  if (!geocodingData.results?.[0]) {
-    return err(errors.notFound("location", location));
-  }
+function toForecastData(location: string) {
+  return (days: DailyForecast[]): ForecastData => ({
+    location,
+    days: days.map((day) => ({
+      ...day,
+      condition: getWeatherCondition(day.weatherCode),
+    })),
+  });
+}
 
-  const { latitude, longitude, name } = geocodingData.results[0];
+export type WeatherToolsDeps = {
+  openMeteo: OpenMeteoClient;
+  reverseGeocoder: ReverseGeocoder;
+};
 
-  // Fetch weather data
-  const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code`;
+export function createWeatherTools(deps: WeatherToolsDeps) {
+  // A missing place name shouldn't stop the forecast
+  const nameOrCoordinates =
+    (coordinates: Coordinates, log: Logger) => (error: AppError) => {
+      log.warn("Reverse geocoding failed", { err: error });
+      return formatCoordinates(coordinates);
+    };
 
-  const weatherResult = await fromPromise<WeatherResponse, AppError>(
-    fetch(weatherUrl).then((res) => res.json() as Promise<WeatherResponse>),
-    (error): AppError =>
-      errors.infrastructure("Failed to fetch weather data", error)
-  );
+  const namePoint = async (
+    coordinates: Coordinates,
+    locationContext: LocationContext,
+    log: Logger
+  ): Promise<Result<LocatedPlace, AppError>> => {
+    const nameResult = await deps.reverseGeocoder.reverseGeocode(
+      coordinates,
+      locationContext.language
+    );
+    return ok({
+      coordinates,
+      name: match(nameResult, {
+        ok: (name) => name,
+        err: nameOrCoordinates(coordinates, log),
+      }),
+    });
+  };
 
-  if (isErr(weatherResult)) {
-    return err(unwrapErr(weatherResult));
-  }
-
-  const data = unwrap(weatherResult);
-
-  // Transform to weather data
-  return ok({
-    temperature: data.current.temperature_2m,
-    feelsLike: data.current.apparent_temperature,
-    humidity: data.current.relative_humidity_2m,
-    windSpeed: data.current.wind_speed_10m,
-    windGust: data.current.wind_gusts_10m,
-    conditions: getWeatherCondition(data.current.weather_code),
-    location: name,
-  });
-};
+  const geocode = (locationContext: LocationContext) => (name: string) =>
+    deps.openMeteo.geocode(name, locationContext);
+
+  // Coordinates to fetch and a name to show; points skip geocoding entirely
+  const locatePlace = async (
+    place: PlaceQuery,
+    locationContext: LocationContext = {},
+    log: Logger = logger
+  ): Promise<Result<LocatedPlace, AppError>> => {
+    if (place.kind === "coordinates") {
+      return place.name
+        ? ok({ coordinates: place.coordinates, name: place.name })
+        : namePoint(place.coordinates, locationContext, log);
+    }
 
-function getWeatherCondition(code: number): string {
-  const conditions: Record<number, string> = {
-    0: "Clear sky",
-    1: "Mainly clear",
-    2: "Partly cloudy",
-    3: "Overcast",
-    45: "Foggy",
-    48: "Depositing rime fog",
-    51: "Light drizzle",
-    53: "Moderate drizzle",
-    55: "Dense drizzle",
-    56: "Light freezing drizzle",
-    57: "Dense freezing drizzle",
-    61: "Slight rain",
-    63: "Moderate rain",
-    65: "Heavy rain",
-    66: "Light freezing rain",
-    67: "Heavy freezing rain",
-    71: "Slight snow fall",
-    73: "Moderate snow fall",
-    75: "Heavy snow fall",
-    77: "Snow grains",
-    80: "Slight rain showers",
-    81: "Moderate rain showers",
-    82: "Violent rain showers",
-    85: "Slight snow showers",
-    86: "Heavy snow showers",
-    95: "Thunderstorm",
-    96: "Thunderstorm with slight hail",
-    99: "Thunderstorm with heavy hail",
+    return chain<string, AppError>(place.name)
+      .asyncAndThen(geocode(locationContext))
+      .map(toLocatedPlace)
+      .toResult();
   };
-  return conditions[code] || "Unknown";
+
+  const locate =
+    (locationContext: LocationContext, log: Logger) => (place: PlaceQuery) =>
+      locatePlace(place, locationContext, log);
+
+  const fetchCurrentWeather = ({
+    coordinates,
+    name,
+  }: LocatedPlace): Promise<Result<WeatherData, AppError>> =>
+    chainResult(deps.openMeteo.getCurrentWeather(coordinates))
+      .map(toWeatherData(name))
+      .toResult();
+
+  const fetchForecast =
+    (days: number) =>
+    ({
+      coordinates,
+      name,
+    }: LocatedPlace): Promise<Result<ForecastData, AppError>> =>
+      chainResult(deps.openMeteo.getDailyForecast(coordinates, days))
+        .map(toForecastData(name))
+        .toResult();
+
+  const getWeather = (
+    place: PlaceQuery,
+    locationContext: LocationContext = {},
+    log: Logger = logger
+  ): Promise<Result<WeatherData, AppError>> =>
+    chain<PlaceQuery, AppError>(place)
+      .asyncAndThen(locate(locationContext, log))
+      .asyncAndThen(fetchCurrentWeather)
+      .toResult();
+
+  const getForecast = (
+    location: string | PlaceQuery,
+    days: number,
+    locationContext: LocationContext = {},
+    log: Logger = logger
+  ): Promise<Result<ForecastData, AppError>> =>
+    chain<string | PlaceQuery, AppError>(location)
+      .map(toPlaceQuery)
+      .asyncAndThen(locate(locationContext, log))
+      .asyncAndThen(fetchForecast(days))
+      .toResult();
+
+  // Tool lookups search with the hints of whoever is asking
+  const weatherFor =
+    (runtimeContext: RuntimeContext, log: Logger) => (place: PlaceQuery) =>
+      getWeather(place, getLocationContext(runtimeContext), log);
+
+  const forecastFor =
+    (days: number, runtimeContext: RuntimeContext, log: Logger) =>
+    (place: PlaceQuery) =>
+      getForecast(place, days, getLocationContext(runtimeContext), log);
+
+  const weatherTool = createTool({
+    id: "get-weather",
+    description: "Get current weather for a location",
+    inputSchema: placeInputSchema,
+    outputSchema: weatherOutputSchema,
+    execute: ({ context, runtimeContext }) =>
+      withSpan(
+        "tool get-weather",
+        { "gen_ai.tool.name": "get-weather" },
+        async () => {
+          const log = runtimeLogger(runtimeContext);
+          log.debug("Tool called", { tool: "get-weather", input: context });
+
+          const result = await chain<PlaceInput, AppError>(context)
+            .andThen(resolvePlace(runtimeContext))
+            .asyncAndThen(weatherFor(runtimeContext, log))
+            .toResult();
+
+          return match(result, {
+            ok: (weather) => weather,
+            err: throwToolError(log, "get-weather"),
+          });
+        }
+      ),
+  });
+
+  const forecastTool = createTool({
+    id: "get-forecast",
+    description: "Get the daily weather forecast for a location",
+    inputSchema: placeInputSchema.extend({
+      days: z
+        .number()
+        .int()
+        .min(1)
+        .max(16)
+        .describe("Number of days to forecast, starting today (1-16)"),
+    }),
+    outputSchema: forecastSchema,
+    execute: ({ context, runtimeContext }) =>
+      withSpan(
+        "tool get-forecast",
+        { "gen_ai.tool.name": "get-forecast" },
+        async () => {
+          const log = runtimeLogger(runtimeContext);
+          log.debug("Tool called", { tool: "get-forecast", input: context });
+
+          const result = await chain<PlaceInput, AppError>(context)
+            .andThen(resolvePlace(runtimeContext))
+            .asyncAndThen(forecastFor(context.days, runtimeContext, log))
+            .toResult();
+
+          return match(result, {
+            ok: (forecast) => forecast,
+            err: throwToolError(log, "get-forecast"),
+          });
+        }
+      ),
+  });
+
+  return { locatePlace, getWeather, getForecast, weatherTool, forecastTool };
 }
+
+export type WeatherTools = ReturnType<typeof createWeatherTools>;
+
+// Shared tools configured from the environment
+export const {
+  locatePlace,
+  getWeather,
+  getForecast,
+  weatherTool,
+  forecastTool,
+} = createWeatherTools({ openMeteo, reverseGeocoder });
@@ -0,0 +1,79 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { describe, expect, it } from "bun:test";
+import { createOpenMeteoClient } from "../../infrastructure/open-meteo.js";
+import { createReverseGeocoder } from "../../infrastructure/reverse-geocoding.js";
+import { createScriptedModel } from "../../testing/fake-model.js";
+import { createOpenMeteoStandIn } from "../../testing/open-meteo.js";
+import { tokyoPlan } from "../../testing/plans.js";
+import { createWeatherTools } from "../tools/index.js";
+import {
+  WeatherWorkflowRuntimeContext,
+  createWeatherWorkflow,
+  getStepError,
+} from "./index.js";
+
+function setup(plannerTurns: Parameters<typeof createScriptedModel>[0]) {
+  const openMeteo = createOpenMeteoStandIn();
+  const { getForecast } = createWeatherTools({
+    openMeteo: createOpenMeteoClient({ fetch: openMeteo.fetch }),
+    reverseGeocoder: createReverseGeocoder({ fetch: openMeteo.fetch }),
+  });
+  const model = createScriptedModel(plannerTurns);
+  return {
+    model,
+    workflow: createWeatherWorkflow({ getForecast, model }),
+  };
+}
+
+describe("weather workflow", () => {
+  it("plans activities for the forecast with its alerts", async () => {
+    const { model, workflow } = setup([{ text: JSON.stringify(tokyoPlan) }]);
+
+    const result = await workflow
+      .createRun()
+      .start({ inputData: { city: "Tokyo", days: 2 } });
+
+    if (result.status !== "success") {
+      throw new Error(`Workflow ${result.status}`);
+    }
+    expect(result.result.plan).toEqual(tokyoPlan);
+    expect(result.result.activities).toContain("Yoyogi Park");
+    expect(result.result.alerts.map((alert) => alert.date)).toContain(
+      "2025-06-15"
+    );
+    expect(JSON.stringify(model.calls[0].prompt)).toContain(
+      "2-day weather forecast for Tokyo, Japan"
+    );
+  });
+
+  it("hands the typed step error back through the runtime context", async () => {
+    const { model, workflow } = setup([]);
+    const runtimeContext = new RuntimeContext<WeatherWorkflowRuntimeContext>();
+
+    const result = await workflow
+      .createRun()
+      .start({ inputData: { city: "Atlantis", days: 1 }, runtimeContext });
+
+    expect(result.status).toBe("failed");
+    expect(getStepError(runtimeContext)).toMatchObject({
+      kind: "not-found",
+      id: "Atlantis",
+    });
+    expect(model.calls).toHaveLength(0);
+  });
+
+  it("fails the plan step when the model does", async () => {
+    const { workflow } = setup([{ error: new Error("model overloaded") }]);
+    const runtimeContext = new RuntimeContext<WeatherWorkflowRuntimeContext>();
+
+    const result = await workflow
+      .createRun()
+      .start({ inputData: { city: "Tokyo", days: 1 }, runtimeContext });
+
+    expect(result.status).toBe("failed");
+    expect(getStepError(runtimeContext)).toMatchObject({
+      kind: "llm-failure",
+      message: "Failed to plan activities",
+    });
+  });
+});
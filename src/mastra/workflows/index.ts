@@ -1,251 +1,256 @@
-import { google } from "@ai-sdk/google";
-import { Agent } from "@mastra/core/agent";
+import { Agent, MastraLanguageModel } from "@mastra/core/agent";
+import { RuntimeContext } from "@mastra/core/runtime-context";
 import { createStep, createWorkflow } from "@mastra/core/workflows";
 import { z } from "zod";
+import {
+  ActivityPlan,
+  activityPlanSchema,
+  renderActivityPlan,
+} from "../../domain/activity-plan.js";
+import { detectAlerts, weatherAlertSchema } from "../../domain/alerts.js";
+import {
+  RequestRuntimeContext,
+  runtimeLogger,
+} from "../../infrastructure/logger.js";
+import { llmLimiter } from "../../infrastructure/rate-limit.js";
+import { withSpan } from "../../infrastructure/telemetry.js";
 import {
   AppError,
   Result,
+  chain,
+  chainResult,
   err,
   errors,
   fromPromise,
-  isErr,
+  match,
   ok,
-  unwrap,
-  unwrapErr,
+  toMastraError,
 } from "../../utils/result.js";
+import { models } from "../models/index.js";
+import {
+  ForecastData,
+  WeatherTools,
+  forecastSchema,
+  getForecast,
+} from "../tools/index.js";
 
-const llm = google(process.env.MODEL ?? "gemini-2.5-pro");
-
-const agent = new Agent({
-  name: "Weather Agent",
-  model: llm,
-  instructions: `
+const plannerInstructions = `
         You are a local activities and travel expert who excels at weather-based planning. Analyze the weather data and provide practical activity recommendations.
 
-        For each day in the forecast, structure your response exactly as follows:
-
-        📅 [Day, Month Date, Year]
-        ═══════════════════════════
-
-        🌡️ WEATHER SUMMARY
-        • Conditions: [brief description]
-        • Temperature: [X°C/Y°F to A°C/B°F]
-        • Precipitation: [X% chance]
-
-        🌅 MORNING ACTIVITIES
-        Outdoor:
-        • [Activity Name] - [Brief description including specific location/route]
-          Best timing: [specific time range]
-          Note: [relevant weather consideration]
-
-        🌞 AFTERNOON ACTIVITIES
-        Outdoor:
-        • [Activity Name] - [Brief description including specific location/route]
-          Best timing: [specific time range]
-          Note: [relevant weather consideration]
-
-        🏠 INDOOR ALTERNATIVES
-        • [Activity Name] - [Brief description including specific venue]
-          Ideal for: [weather condition that would trigger this alternative]
-
-        ⚠️ SPECIAL CONSIDERATIONS
-        • [Any relevant weather warnings, UV index, wind conditions, etc.]
+        Your response is returned as a structured activity plan:
+        - location: the city from the forecast
+        - days: one entry per forecast day, in order, using that day's date
+          - weatherSummary: conditions, high/low temperature and precipitation chance
+          - morningActivities / afternoonActivities: outdoor activities with a specific location or route, best timing and a weather note
+          - indoorAlternatives: specific venues and the weather condition that would trigger each one
+          - specialConsiderations: any relevant weather warnings, UV index, wind conditions, etc.
+            Always mention the weather alerts provided for that day here
 
         Guidelines:
         - Suggest 2-3 time-specific outdoor activities per day
         - Include 1-2 indoor backup options
         - For precipitation >50%, lead with indoor activities
+        - Keep outdoor timings between that day's sunrise and sunset
+        - For UV index >6, recommend sun protection or shaded options
         - All activities must be specific to the location
         - Include specific venues, trails, or locations
         - Consider activity intensity based on temperature
         - Keep descriptions concise but informative
+      `;
 
-        Maintain this exact formatting for consistency, using the emoji and section headers as shown.
-      `,
-});
-
-const forecastSchema = z.object({
-  date: z.string(),
-  maxTemp: z.number(),
-  minTemp: z.number(),
-  precipitationChance: z.number(),
-  condition: z.string(),
-  location: z.string(),
+const workflowInputSchema = z.object({
+  city: z.string().describe("The city to get the weather for"),
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(16)
+    .describe("Number of days to forecast (1-16)"),
 });
 
-type ForecastData = z.infer<typeof forecastSchema>;
-
-// Type declaration for API responses
-type GeocodingResponse = {
-  results: { latitude: number; longitude: number; name: string }[];
-};
-
-type WeatherApiResponse = {
-  current: {
-    time: string;
-    precipitation: number;
-    weathercode: number;
-  };
-  hourly: {
-    precipitation_probability: number[];
-    temperature_2m: number[];
-  };
+// Values shared between the workflow steps and whoever started the run
+export type WeatherWorkflowRuntimeContext = RequestRuntimeContext & {
+  error: AppError;
 };
 
-function getWeatherCondition(code: number): string {
-  const conditions: Record<number, string> = {
-    0: "Clear sky",
-    1: "Mainly clear",
-    2: "Partly cloudy",
-    3: "Overcast",
-    45: "Foggy",
-    48: "Depositing rime fog",
-    51: "Light drizzle",
-    53: "Moderate drizzle",
-    55: "Dense drizzle",
-    61: "Slight rain",
-    63: "Moderate rain",
-    65: "Heavy rain",
-    71: "Slight snow fall",
-    73: "Moderate snow fall",
-    75: "Heavy snow fall",
-    95: "Thunderstorm",
-  };
-  return conditions[code] || "Unknown";
+// Mastra flattens thrown errors into a stack trace, so the typed error
+// travels back to the caller through the runtime context instead
+function failStep(runtimeContext: RuntimeContext, error: AppError): never {
+  runtimeLogger(runtimeContext).warn("Workflow step failed", { err: error });
+  (runtimeContext as RuntimeContext<WeatherWorkflowRuntimeContext>).set(
+    "error",
+    error
+  );
+  throw toMastraError(error);
 }
 
-// Helper function to fetch weather data with Result type
-async function fetchWeatherData(
-  city: string
-): Promise<Result<ForecastData, AppError>> {
-  // Geocoding step
-  const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(city)}&count=1`;
-
-  const geocodingResult = await fromPromise<GeocodingResponse, AppError>(
-    fetch(geocodingUrl).then((res) => res.json() as Promise<GeocodingResponse>),
-    (error): AppError =>
-      errors.infrastructure("Failed to fetch geocoding data", error)
+export function getStepError(
+  runtimeContext: RuntimeContext
+): AppError | undefined {
+  return (runtimeContext as RuntimeContext<WeatherWorkflowRuntimeContext>).get(
+    "error"
   );
+}
 
-  if (isErr(geocodingResult)) {
-    return err(unwrapErr(geocodingResult));
-  }
+const activitiesOutputSchema = z.object({
+  plan: activityPlanSchema,
+  activities: z.string(),
+  alerts: z.array(weatherAlertSchema),
+});
 
-  const geocodingData = unwrap(geocodingResult);
+type WorkflowInput = z.infer<typeof workflowInputSchema>;
+type ActivitiesOutput = z.infer<typeof activitiesOutputSchema>;
+type AlertedForecast = {
+  forecast: ForecastData;
+  alerts: ActivitiesOutput["alerts"];
+};
 
-  if (!geocodingData.results?.[0]) {
-    return err(errors.notFound("location", city));
-  }
+function requireInput(
+  inputData: WorkflowInput | undefined
+): Result<WorkflowInput, AppError> {
+  return inputData
+    ? ok(inputData)
+    : err(errors.validation("Input data not found"));
+}
 
-  const { latitude, longitude, name } = geocodingData.results[0];
+function requireForecastDays(
+  forecast: ForecastData | undefined
+): Result<ForecastData, AppError> {
+  return forecast && forecast.days.length > 0
+    ? ok(forecast)
+    : err(errors.notFound("forecast"));
+}
 
-  // Weather data step
-  const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=precipitation,weathercode&timezone=auto,&hourly=precipitation_probability,temperature_2m`;
+function withAlerts(forecast: ForecastData): AlertedForecast {
+  return { forecast, alerts: detectAlerts(forecast.days) };
+}
 
-  const weatherResult = await fromPromise<WeatherApiResponse, AppError>(
-    fetch(weatherUrl).then((res) => res.json() as Promise<WeatherApiResponse>),
-    (error): AppError =>
-      errors.infrastructure("Failed to fetch weather data", error)
-  );
+function planningPrompt({ forecast, alerts }: AlertedForecast): string {
+  return `Based on the following ${forecast.days.length}-day weather forecast for ${forecast.location}, suggest appropriate activities for each day:
+        ${JSON.stringify(forecast.days, null, 2)}
 
-  if (isErr(weatherResult)) {
-    return err(unwrapErr(weatherResult));
-  }
-
-  const data = unwrap(weatherResult);
-
-  const forecast: ForecastData = {
-    date: new Date().toISOString(),
-    maxTemp: Math.max(...data.hourly.temperature_2m),
-    minTemp: Math.min(...data.hourly.temperature_2m),
-    condition: getWeatherCondition(data.current.weathercode),
-    precipitationChance: data.hourly.precipitation_probability.reduce(
-      (acc: number, curr: number) => Math.max(acc, curr),
-      0
-    ),
-    location: city,
-  };
-
-  return ok(forecast);
+        Weather alerts:
+        ${alerts.length > 0 ? JSON.stringify(alerts, null, 2) : "None"}
+        `;
 }
 
-// Mastra steps still need to throw errors at boundaries
-const fetchWeather = createStep({
-  id: "fetch-weather",
-  description: "Fetches weather forecast for a given city",
-  inputSchema: z.object({
-    city: z.string().describe("The city to get the weather for"),
-  }),
-  outputSchema: forecastSchema,
-  execute: async ({ inputData }) => {
-    if (!inputData) {
-      // Mastra expects thrown errors
-      throw new Error("Input data not found");
-    }
-
-    const result = await fetchWeatherData(inputData.city);
-
-    if (isErr(result)) {
-      // Convert Result error to thrown error for Mastra
-      const error = unwrapErr(result);
-      throw new Error(`${error.kind}: ${error.message}`);
-    }
-
-    return unwrap(result);
-  },
-});
+function planOf(response: { object: ActivityPlan }): ActivityPlan {
+  return response.object;
+}
 
-const planActivities = createStep({
-  id: "plan-activities",
-  description: "Suggests activities based on weather conditions",
-  inputSchema: forecastSchema,
-  outputSchema: z.object({
-    activities: z.string(),
-  }),
-  execute: async ({ inputData }) => {
-    const forecast = inputData;
-
-    if (!forecast) {
-      // Mastra expects thrown errors
-      throw new Error("Forecast data not found");
-    }
-
-    const prompt = `Based on the following weather forecast for ${forecast.location}, suggest appropriate activities:
-      ${JSON.stringify(forecast, null, 2)}
-      `;
+function toActivitiesOutput(alerts: ActivitiesOutput["alerts"]) {
+  return (plan: ActivityPlan): ActivitiesOutput => ({
+    plan,
+    activities: renderActivityPlan(plan),
+    alerts,
+  });
+}
 
-    const response = await agent.stream([
-      {
-        role: "user",
-        content: prompt,
-      },
-    ]);
+export type WeatherWorkflowDeps = {
+  getForecast: WeatherTools["getForecast"];
+  model: MastraLanguageModel;
+};
 
-    let activitiesText = "";
+export function createWeatherWorkflow(deps: WeatherWorkflowDeps) {
+  const agent = new Agent({
+    name: "Weather Agent",
+    model: deps.model,
+    instructions: plannerInstructions,
+  });
+
+  const fetchForecast =
+    (runtimeContext: RuntimeContext) =>
+    ({ city, days }: WorkflowInput) =>
+      deps.getForecast(city, days, {}, runtimeLogger(runtimeContext));
+
+  const generatePlan = (
+    alerted: AlertedForecast,
+    runtimeContext: RuntimeContext
+  ): Promise<Result<ActivityPlan, AppError>> =>
+    withSpan(
+      "weather-planner generate",
+      { "gen_ai.agent.name": "weather-planner" },
+      () =>
+        chainResult(
+          fromPromise(
+            llmLimiter.run(() =>
+              agent.generate(
+                [{ role: "user", content: planningPrompt(alerted) }],
+                {
+                  output: activityPlanSchema,
+                  runtimeContext,
+                }
+              )
+            ),
+            (error): AppError => errors.llm("Failed to plan activities", error)
+          )
+        )
+          .map(planOf)
+          .toResult()
+    );
+
+  const planWithAgent =
+    (runtimeContext: RuntimeContext) => (alerted: AlertedForecast) =>
+      chainResult(generatePlan(alerted, runtimeContext))
+        .map(toActivitiesOutput(alerted.alerts))
+        .toResult();
+
+  // Mastra steps still need to throw errors at boundaries
+  const fetchWeather = createStep({
+    id: "fetch-weather",
+    description: "Fetches the daily weather forecast for a given city",
+    inputSchema: workflowInputSchema,
+    outputSchema: forecastSchema,
+    execute: async ({ inputData, runtimeContext }) => {
+      const result = await chain<WorkflowInput | undefined, AppError>(inputData)
+        .andThen(requireInput)
+        .asyncAndThen(fetchForecast(runtimeContext))
+        .toResult();
+
+      return match(result, {
+        ok: (forecast) => forecast,
+        err: (error) => failStep(runtimeContext, error),
+      });
+    },
+  });
+
+  const planActivities = createStep({
+    id: "plan-activities",
+    description: "Suggests activities for each forecast day",
+    inputSchema: forecastSchema,
+    outputSchema: activitiesOutputSchema,
+    execute: async ({ inputData, runtimeContext }) => {
+      const result = await chain<ForecastData | undefined, AppError>(inputData)
+        .andThen(requireForecastDays)
+        .map(withAlerts)
+        .asyncAndThen(planWithAgent(runtimeContext))
+        .toResult();
+
+      return match(result, {
+        ok: (activities) => activities,
+        err: (error) => failStep(runtimeContext, error),
+      });
+    },
+  });
+
+  const workflow = createWorkflow({
+    id: "weather-workflow",
+    inputSchema: workflowInputSchema,
+    outputSchema: activitiesOutputSchema,
+  })
+    .then(fetchWeather)
+    .then(planActivities);
+
+  workflow.commit();
+
+  return workflow;
+}
 
-    for await (const chunk of response.textStream) {
-      process.stdout.write(chunk);
-      activitiesText += chunk;
-    }
+export type WeatherWorkflow = ReturnType<typeof createWeatherWorkflow>;
 
-    return {
-      activities: activitiesText,
-    };
-  },
+const weatherWorkflow = createWeatherWorkflow({
+  getForecast,
+  model: models.get("planning"),
 });
 
-const weatherWorkflow = createWorkflow({
-  id: "weather-workflow",
-  inputSchema: z.object({
-    city: z.string().describe("The city to get the weather for"),
-  }),
-  outputSchema: z.object({
-    activities: z.string(),
-  }),
-})
-  .then(fetchWeather)
-  .then(planActivities);
-
-weatherWorkflow.commit();
-
-export { fetchWeatherData, weatherWorkflow };
+export { activitiesOutputSchema, weatherWorkflow, workflowInputSchema };
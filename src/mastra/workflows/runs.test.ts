@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+import { createDatabase } from "../../infrastructure/database.js";
+import { createOpenMeteoClient } from "../../infrastructure/open-meteo.js";
+import { createReverseGeocoder } from "../../infrastructure/reverse-geocoding.js";
+import { createWorkflowRunsRepository } from "../../repositories/workflow-runs.js";
+import { createScriptedModel } from "../../testing/fake-model.js";
+import { createOpenMeteoStandIn } from "../../testing/open-meteo.js";
+import { tokyoPlan } from "../../testing/plans.js";
+import { unwrap } from "../../utils/result.js";
+import { createWeatherTools } from "../tools/index.js";
+import { createWeatherWorkflow } from "./index.js";
+import { createWeatherWorkflowRuns } from "./runs.js";
+
+describe("createWeatherWorkflowRuns", () => {
+  it("marks a run failed when saving its outcome throws", async () => {
+    const openMeteo = createOpenMeteoStandIn();
+    const { getForecast } = createWeatherTools({
+      openMeteo: createOpenMeteoClient({ fetch: openMeteo.fetch }),
+      reverseGeocoder: createReverseGeocoder({ fetch: openMeteo.fetch }),
+    });
+    const runs = createWorkflowRunsRepository(createDatabase(":memory:"));
+    const workflowRuns = createWeatherWorkflowRuns({
+      // The final save throws instead of returning an error
+      runs: {
+        ...runs,
+        update: (id, update) =>
+          update.status === "success"
+            ? Promise.reject(new Error("disk I/O error"))
+            : runs.update(id, update),
+      },
+      workflow: createWeatherWorkflow({
+        getForecast,
+        model: createScriptedModel([{ text: JSON.stringify(tokyoPlan) }]),
+      }),
+    });
+
+    const { id } = unwrap(await workflowRuns.start({ city: "Tokyo", days: 2 }));
+    let run = unwrap(await workflowRuns.get(id));
+    for (
+      let attempt = 0;
+      attempt < 100 && run.status === "running";
+      attempt++
+    ) {
+      await Bun.sleep(10);
+      run = unwrap(await workflowRuns.get(id));
+    }
+
+    expect(run.status).toBe("failed");
+    expect(run.error).toMatchObject({
+      kind: "infrastructure",
+      message: "Weather workflow run crashed",
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import {
+  WorkflowRunRecord,
+  WorkflowRunStatus,
+  WorkflowRunUpdate,
+  WorkflowStepRecord,
+  toStoredError,
+} from "../../domain/workflow-runs.js";
+import {
+  RequestContext,
+  newRequestContext,
+  requestLogger,
+  setRequestContext,
+} from "../../infrastructure/logger.js";
+import { WorkflowRunsRepository } from "../../repositories/workflow-runs.js";
+import {
+  AppError,
+  Result,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../../utils/result.js";
+import {
+  WeatherWorkflow,
+  WeatherWorkflowRuntimeContext,
+  activitiesOutputSchema,
+  getStepError,
+  workflowInputSchema,
+} from "./index.js";
+
+export type WeatherWorkflowInput = z.infer<typeof workflowInputSchema>;
+export type WeatherWorkflowOutput = z.infer<typeof activitiesOutputSchema>;
+
+export type WeatherWorkflowRunsDeps = {
+  runs: WorkflowRunsRepository;
+  workflow: WeatherWorkflow;
+};
+
+// Step state as reported by Mastra, both while watching and at the end
+type MastraStepState = {
+  status: string;
+  output?: unknown;
+  startedAt?: number;
+  endedAt?: number;
+};
+
+function toStatus(status: string): WorkflowRunStatus {
+  return status === "success" || status === "failed" || status === "suspended"
+    ? status
+    : "running";
+}
+
+function toStepRecords(
+  steps: Record<string, unknown>,
+  runtimeContext: RuntimeContext
+): Record<string, WorkflowStepRecord> {
+  const records: Record<string, WorkflowStepRecord> = {};
+
+  for (const [id, value] of Object.entries(steps)) {
+    // Mastra keeps the workflow input alongside the steps
+    if (!value || typeof value !== "object" || !("status" in value)) {
+      continue;
+    }
+
+    const step = value as MastraStepState;
+    const status = toStatus(step.status);
+    records[id] = {
+      status,
+      output: status === "success" ? step.output : undefined,
+      error:
+        status === "failed"
+          ? toStoredError(
+              getStepError(runtimeContext) ??
+                errors.infrastructure(`Step ${id} failed`)
+            )
+          : undefined,
+      startedAt:
+        step.startedAt !== undefined
+          ? new Date(step.startedAt).toISOString()
+          : undefined,
+      endedAt:
+        step.endedAt !== undefined
+          ? new Date(step.endedAt).toISOString()
+          : undefined,
+    };
+  }
+
+  return records;
+}
+
+// Runs the weather workflow while recording its progress in local storage
+export function createWeatherWorkflowRuns(deps: WeatherWorkflowRunsDeps) {
+  const execute = async (
+    id: string,
+    input: WeatherWorkflowInput,
+    context: RequestContext
+  ): Promise<Result<WeatherWorkflowOutput, AppError>> => {
+    const run = deps.workflow.createRun({ runId: id });
+    const runtimeContext = new RuntimeContext<WeatherWorkflowRuntimeContext>();
+    setRequestContext(runtimeContext, context);
+    const log = requestLogger(context);
+
+    // Chain writes so step updates can't overtake each other
+    let saved = Promise.resolve();
+    const save = (update: WorkflowRunUpdate) => {
+      saved = saved.then(async () => {
+        const result = await deps.runs.update(id, update);
+        if (isErr(result)) {
+          log.error("Failed to save workflow run", {
+            runId: id,
+            err: unwrapErr(result),
+          });
+        }
+      });
+    };
+
+    const unwatch = run.watch((event) => {
+      save({
+        steps: toStepRecords(event.payload.workflowState.steps, runtimeContext),
+      });
+    });
+
+    const startResult = await fromPromise(
+      run.start({ inputData: input, runtimeContext }),
+      (error): AppError =>
+        errors.infrastructure("Weather workflow failed", error)
+    );
+    unwatch();
+
+    let outcome: Result<WeatherWorkflowOutput, AppError>;
+    let steps: Record<string, WorkflowStepRecord> | undefined;
+
+    if (isErr(startResult)) {
+      outcome = startResult;
+    } else {
+      const finished = unwrap(startResult);
+      steps = toStepRecords(finished.steps, runtimeContext);
+
+      if (finished.status === "success") {
+        outcome = ok(finished.result);
+      } else if (finished.status === "failed") {
+        outcome = err(
+          getStepError(runtimeContext) ??
+            errors.infrastructure(finished.error.message)
+        );
+      } else {
+        outcome = err(errors.infrastructure("Weather workflow was suspended"));
+      }
+    }
+
+    save(
+      isErr(outcome)
+        ? {
+            status: "failed",
+            steps,
+            error: toStoredError(unwrapErr(outcome)),
+          }
+        : { status: "success", steps, result: unwrap(outcome) }
+    );
+    await saved;
+
+    return outcome;
+  };
+
+  // A run that threw outside the workflow, e.g. while saving its outcome,
+  // would otherwise stay "running" forever
+  const failCrashed = async (
+    id: string,
+    cause: unknown,
+    context: RequestContext
+  ) => {
+    const log = requestLogger(context);
+    const error = errors.infrastructure("Weather workflow run crashed", cause);
+    log.error("Weather workflow run crashed", { runId: id, err: error });
+
+    const result = await fromPromise(
+      deps.runs.update(id, { status: "failed", error: toStoredError(error) }),
+      (saveError): AppError =>
+        errors.infrastructure("Failed to update workflow run", saveError)
+    );
+    const saved = isErr(result) ? result : unwrap(result);
+    if (isErr(saved)) {
+      log.error("Failed to save workflow run", {
+        runId: id,
+        err: unwrapErr(saved),
+      });
+    }
+  };
+
+  const create = async (input: WeatherWorkflowInput) =>
+    deps.runs.create({
+      id: randomUUID(),
+      workflowId: deps.workflow.id,
+      input,
+    });
+
+  return {
+    // Start a run in the background and return its record straight away
+    start: async (
+      input: WeatherWorkflowInput,
+      context: RequestContext = newRequestContext()
+    ): Promise<Result<WorkflowRunRecord, AppError>> => {
+      const recordResult = await create(input);
+      if (isErr(recordResult)) {
+        return recordResult;
+      }
+
+      const record = unwrap(recordResult);
+      void execute(record.id, input, context).catch((error: unknown) =>
+        failCrashed(record.id, error, context)
+      );
+      return ok(record);
+    },
+
+    // Run to completion, for callers that need the plan itself
+    run: async (
+      input: WeatherWorkflowInput,
+      context: RequestContext = newRequestContext()
+    ): Promise<Result<WeatherWorkflowOutput, AppError>> => {
+      const recordResult = await create(input);
+      if (isErr(recordResult)) {
+        return recordResult;
+      }
+      return execute(unwrap(recordResult).id, input, context);
+    },
+
+    get: async (id: string): Promise<Result<WorkflowRunRecord, AppError>> => {
+      const result = await deps.runs.get(id);
+      if (isErr(result)) {
+        return result;
+      }
+      if (unwrap(result).workflowId !== deps.workflow.id) {
+        return err(errors.notFound("workflow run", id));
+      }
+      return result;
+    },
+
+    // Runs cut short by a restart would otherwise stay "running" forever
+    failInterrupted: () =>
+      deps.runs.failInterrupted(
+        errors.infrastructure("Run was interrupted by a server restart")
+      ),
+  };
+}
+
+export type WeatherWorkflowRuns = ReturnType<typeof createWeatherWorkflowRuns>;
@@ -0,0 +1,71 @@
+import { Client } from "@libsql/client";
+import { createSchemaInit } from "../infrastructure/database.js";
+import {
+  AppError,
+  Result,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+// Remembers which alerts each user was already notified about
+export type SentAlertsRepository = {
+  isSent: (userId: string, key: string) => Promise<Result<boolean, AppError>>;
+  markSent: (userId: string, key: string) => Promise<Result<void, AppError>>;
+};
+
+export function createSentAlertsRepository(db: Client): SentAlertsRepository {
+  // Create the table once, on first use
+  const ensureSchema = createSchemaInit(
+    db,
+    `CREATE TABLE IF NOT EXISTS sent_alerts (
+      user_id TEXT NOT NULL,
+      alert_key TEXT NOT NULL,
+      sent_at TEXT NOT NULL,
+      PRIMARY KEY (user_id, alert_key)
+    )`,
+    "Failed to create sent alerts table"
+  );
+
+  return {
+    isSent: async (userId, key) => {
+      const schemaResult = await ensureSchema();
+      if (isErr(schemaResult)) {
+        return schemaResult;
+      }
+      const result = await fromPromise(
+        db.execute({
+          sql: "SELECT 1 FROM sent_alerts WHERE user_id = ? AND alert_key = ?",
+          args: [userId, key],
+        }),
+        (error): AppError =>
+          errors.infrastructure("Failed to load sent alerts", error)
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rows.length > 0);
+    },
+
+    markSent: async (userId, key) => {
+      const schemaResult = await ensureSchema();
+      if (isErr(schemaResult)) {
+        return schemaResult;
+      }
+      const result = await fromPromise(
+        db.execute({
+          sql: "INSERT OR IGNORE INTO sent_alerts (user_id, alert_key, sent_at) VALUES (?, ?, ?)",
+          args: [userId, key, new Date().toISOString()],
+        }),
+        (error): AppError =>
+          errors.infrastructure("Failed to save sent alert", error)
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(undefined);
+    },
+  };
+}
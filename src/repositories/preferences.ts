@@ -0,0 +1,113 @@
+import { Client } from "@libsql/client";
+import {
+  UserPreferences,
+  defaultPreferences,
+  userPreferencesSchema,
+} from "../domain/preferences.js";
+import { createSchemaInit } from "../infrastructure/database.js";
+import {
+  AppError,
+  Result,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+export type PreferencesRepository = {
+  // undefined until the user saves a setting
+  get: (
+    userId: string
+  ) => Promise<Result<UserPreferences | undefined, AppError>>;
+  update: (
+    userId: string,
+    update: Partial<UserPreferences>
+  ) => Promise<Result<UserPreferences, AppError>>;
+};
+
+export function createPreferencesRepository(db: Client): PreferencesRepository {
+  // Create the table once, on first use
+  const ensureSchema = createSchemaInit(
+    db,
+    `CREATE TABLE IF NOT EXISTS user_preferences (
+      user_id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`,
+    "Failed to create preferences table"
+  );
+
+  const get = async (
+    userId: string
+  ): Promise<Result<UserPreferences | undefined, AppError>> => {
+    const schemaResult = await ensureSchema();
+    if (isErr(schemaResult)) {
+      return schemaResult;
+    }
+
+    const rowsResult = await fromPromise(
+      db.execute({
+        sql: "SELECT data FROM user_preferences WHERE user_id = ?",
+        args: [userId],
+      }),
+      (error): AppError =>
+        errors.infrastructure("Failed to load preferences", error)
+    );
+    if (isErr(rowsResult)) {
+      return rowsResult;
+    }
+
+    const row = unwrap(rowsResult).rows[0];
+    if (!row) {
+      return ok(undefined);
+    }
+
+    // Fill in defaults for settings added after the row was saved
+    const parsed = userPreferencesSchema.safeParse({
+      ...defaultPreferences,
+      ...JSON.parse(String(row.data)),
+    });
+    if (!parsed.success) {
+      return err(
+        errors.infrastructure("Stored preferences are invalid", parsed.error)
+      );
+    }
+
+    return ok(parsed.data);
+  };
+
+  const update = async (
+    userId: string,
+    changes: Partial<UserPreferences>
+  ): Promise<Result<UserPreferences, AppError>> => {
+    const currentResult = await get(userId);
+    if (isErr(currentResult)) {
+      return currentResult;
+    }
+
+    const preferences = {
+      ...(unwrap(currentResult) ?? defaultPreferences),
+      ...changes,
+    };
+
+    const saveResult = await fromPromise(
+      db.execute({
+        sql: `INSERT INTO user_preferences (user_id, data, updated_at)
+              VALUES (?, ?, ?)
+              ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+        args: [userId, JSON.stringify(preferences), new Date().toISOString()],
+      }),
+      (error): AppError =>
+        errors.infrastructure("Failed to save preferences", error)
+    );
+    if (isErr(saveResult)) {
+      return saveResult;
+    }
+
+    return ok(preferences);
+  };
+
+  return { get, update };
+}
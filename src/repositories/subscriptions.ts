@@ -0,0 +1,164 @@
+import { Client, Row } from "@libsql/client";
+import { Subscription } from "../domain/subscriptions.js";
+import { createSchemaInit } from "../infrastructure/database.js";
+import {
+  AppError,
+  Result,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+export type NewSubscription = Omit<Subscription, "id">;
+
+export type SubscriptionsRepository = {
+  create: (
+    subscription: NewSubscription
+  ) => Promise<Result<Subscription, AppError>>;
+  listByUser: (userId: string) => Promise<Result<Subscription[], AppError>>;
+  listAll: () => Promise<Result<Subscription[], AppError>>;
+  delete: (userId: string, id: number) => Promise<Result<boolean, AppError>>;
+  // Marks the day's briefing as sent unless another run already did;
+  // false means someone else has it
+  claim: (id: number, date: string) => Promise<Result<boolean, AppError>>;
+  // Undoes a claim whose briefing failed, so the next run retries it
+  release: (
+    id: number,
+    date: string,
+    previous: string | null
+  ) => Promise<Result<void, AppError>>;
+};
+
+function toSubscription(row: Row): Subscription {
+  return {
+    id: Number(row.id),
+    userId: String(row.user_id),
+    city: String(row.city),
+    hour: Number(row.hour),
+    minute: Number(row.minute),
+    timezone: String(row.timezone),
+    lastSentDate:
+      row.last_sent_date === null ? null : String(row.last_sent_date),
+  };
+}
+
+export function createSubscriptionsRepository(
+  db: Client
+): SubscriptionsRepository {
+  // Create the table once, on first use
+  const ensureSchema = createSchemaInit(
+    db,
+    `CREATE TABLE IF NOT EXISTS subscriptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      city TEXT NOT NULL,
+      hour INTEGER NOT NULL,
+      minute INTEGER NOT NULL,
+      timezone TEXT NOT NULL,
+      last_sent_date TEXT
+    )`,
+    "Failed to create subscriptions table"
+  );
+
+  const query = async (
+    sql: string,
+    args: (string | number | null)[],
+    failure: string
+  ) => {
+    const schemaResult = await ensureSchema();
+    if (isErr(schemaResult)) {
+      return schemaResult;
+    }
+    return fromPromise(
+      db.execute({ sql, args }),
+      (error): AppError => errors.infrastructure(failure, error)
+    );
+  };
+
+  return {
+    create: async (subscription) => {
+      const result = await query(
+        `INSERT INTO subscriptions
+           (user_id, city, hour, minute, timezone, last_sent_date)
+         VALUES (?, ?, ?, ?, ?, ?) RETURNING *`,
+        [
+          subscription.userId,
+          subscription.city,
+          subscription.hour,
+          subscription.minute,
+          subscription.timezone,
+          subscription.lastSentDate,
+        ],
+        "Failed to save subscription"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(toSubscription(unwrap(result).rows[0]));
+    },
+
+    listByUser: async (userId) => {
+      const result = await query(
+        "SELECT * FROM subscriptions WHERE user_id = ? ORDER BY hour, minute",
+        [userId],
+        "Failed to load subscriptions"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rows.map(toSubscription));
+    },
+
+    listAll: async () => {
+      const result = await query(
+        "SELECT * FROM subscriptions ORDER BY id",
+        [],
+        "Failed to load subscriptions"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rows.map(toSubscription));
+    },
+
+    delete: async (userId, id) => {
+      const result = await query(
+        "DELETE FROM subscriptions WHERE id = ? AND user_id = ?",
+        [id, userId],
+        "Failed to cancel subscription"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rowsAffected > 0);
+    },
+
+    claim: async (id, date) => {
+      const result = await query(
+        `UPDATE subscriptions SET last_sent_date = ?
+         WHERE id = ? AND last_sent_date IS NOT ?`,
+        [date, id, date],
+        "Failed to update subscription"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rowsAffected > 0);
+    },
+
+    release: async (id, date, previous) => {
+      const result = await query(
+        `UPDATE subscriptions SET last_sent_date = ?
+         WHERE id = ? AND last_sent_date = ?`,
+        [previous, id, date],
+        "Failed to update subscription"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(undefined);
+    },
+  };
+}
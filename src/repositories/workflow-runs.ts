@@ -0,0 +1,162 @@
+import { Client, Row } from "@libsql/client";
+import {
+  WorkflowRunRecord,
+  WorkflowRunUpdate,
+} from "../domain/workflow-runs.js";
+import { createSchemaInit } from "../infrastructure/database.js";
+import {
+  AppError,
+  Result,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+} from "../utils/result.js";
+
+export type NewWorkflowRun = Pick<
+  WorkflowRunRecord,
+  "id" | "workflowId" | "input"
+>;
+
+export type WorkflowRunsRepository = {
+  create: (run: NewWorkflowRun) => Promise<Result<WorkflowRunRecord, AppError>>;
+  get: (id: string) => Promise<Result<WorkflowRunRecord, AppError>>;
+  update: (
+    id: string,
+    update: WorkflowRunUpdate
+  ) => Promise<Result<void, AppError>>;
+  failInterrupted: (error: AppError) => Promise<Result<number, AppError>>;
+};
+
+function parseJson(value: unknown): unknown {
+  return value === null ? null : JSON.parse(String(value));
+}
+
+function toWorkflowRun(row: Row): WorkflowRunRecord {
+  return {
+    id: String(row.id),
+    workflowId: String(row.workflow_id),
+    status: String(row.status) as WorkflowRunRecord["status"],
+    input: parseJson(row.input),
+    steps: parseJson(row.steps) as WorkflowRunRecord["steps"],
+    result: parseJson(row.result),
+    error: parseJson(row.error) as WorkflowRunRecord["error"],
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export function createWorkflowRunsRepository(
+  db: Client
+): WorkflowRunsRepository {
+  // Create the table once, on first use
+  const ensureSchema = createSchemaInit(
+    db,
+    `CREATE TABLE IF NOT EXISTS workflow_runs (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      input TEXT NOT NULL,
+      steps TEXT NOT NULL,
+      result TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`,
+    "Failed to create workflow runs table"
+  );
+
+  const query = async (
+    sql: string,
+    args: (string | number | null)[],
+    failure: string
+  ) => {
+    const schemaResult = await ensureSchema();
+    if (isErr(schemaResult)) {
+      return schemaResult;
+    }
+    return fromPromise(
+      db.execute({ sql, args }),
+      (error): AppError => errors.infrastructure(failure, error)
+    );
+  };
+
+  return {
+    create: async (run) => {
+      const now = new Date().toISOString();
+      const result = await query(
+        `INSERT INTO workflow_runs (id, workflow_id, status, input, steps, created_at, updated_at)
+         VALUES (?, ?, 'running', ?, '{}', ?, ?) RETURNING *`,
+        [run.id, run.workflowId, JSON.stringify(run.input), now, now],
+        "Failed to save workflow run"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(toWorkflowRun(unwrap(result).rows[0]));
+    },
+
+    get: async (id) => {
+      const result = await query(
+        "SELECT * FROM workflow_runs WHERE id = ?",
+        [id],
+        "Failed to load workflow run"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      const row = unwrap(result).rows[0];
+      if (!row) {
+        return err(errors.notFound("workflow run", id));
+      }
+      return ok(toWorkflowRun(row));
+    },
+
+    update: async (id, update) => {
+      const columns: string[] = [];
+      const args: (string | null)[] = [];
+      if (update.status !== undefined) {
+        columns.push("status = ?");
+        args.push(update.status);
+      }
+      if (update.steps !== undefined) {
+        columns.push("steps = ?");
+        args.push(JSON.stringify(update.steps));
+      }
+      if (update.result !== undefined) {
+        columns.push("result = ?");
+        args.push(JSON.stringify(update.result));
+      }
+      if (update.error !== undefined) {
+        columns.push("error = ?");
+        args.push(JSON.stringify(update.error));
+      }
+
+      const result = await query(
+        `UPDATE workflow_runs SET ${[...columns, "updated_at = ?"].join(", ")} WHERE id = ?`,
+        [...args, new Date().toISOString(), id],
+        "Failed to update workflow run"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(undefined);
+    },
+
+    // Runs still marked running after a restart will never finish
+    failInterrupted: async (error) => {
+      const result = await query(
+        `UPDATE workflow_runs SET status = 'failed', error = ?, updated_at = ?
+         WHERE status = 'running'`,
+        [JSON.stringify(error), new Date().toISOString()],
+        "Failed to update workflow runs"
+      );
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(unwrap(result).rowsAffected);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { RequestHandler, Response } from "express";
+import { randomUUID } from "node:crypto";
+import { RequestContext, requestLogger } from "../infrastructure/logger.js";
+
+// Ids a client or proxy may pass in; anything else is replaced
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Every response and log line for a request carries the same id, so a
+// report can be matched to the logs
+export const assignCorrelationId: RequestHandler = (req, res, next) => {
+  const requested = req.get("X-Request-Id");
+  const correlationId =
+    requested && CORRELATION_ID_PATTERN.test(requested)
+      ? requested
+      : randomUUID();
+
+  res.locals.correlationId = correlationId;
+  res.set("X-Request-Id", correlationId);
+  next();
+};
+
+export function requestContextOf(res: Response): RequestContext {
+  return { correlationId: res.locals.correlationId ?? randomUUID() };
+}
+
+// One line per request once the response is sent
+export const logRequests: RequestHandler = (req, res, next) => {
+  const started = performance.now();
+  res.on("finish", () => {
+    requestLogger(requestContextOf(res)).info("HTTP request", {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - started),
+    });
+  });
+  next();
+};
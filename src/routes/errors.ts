@@ -0,0 +1,138 @@
+import { JSONParseError, SignatureValidationFailed } from "@line/bot-sdk";
+import {
+  ErrorRequestHandler,
+  Request,
+  RequestHandler,
+  Response,
+} from "express";
+import { ErrorCode, classifyError } from "../domain/errors.js";
+import { LocationCandidate, describeLocation } from "../domain/locations.js";
+import { requestLogger } from "../infrastructure/logger.js";
+import { metrics } from "../infrastructure/metrics.js";
+import { AppError, errors } from "../utils/result.js";
+import { requestContextOf } from "./context.js";
+
+// RFC 7807 problem details, plus the fields our clients rely on
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: ErrorCode;
+  correlationId: string;
+  field?: string;
+  options?: (LocationCandidate & { label: string })[];
+  retryAfter?: number;
+};
+
+export function toProblem(
+  error: AppError,
+  correlationId: string,
+  instance: string
+): ProblemDetails {
+  const { status, code, title } = classifyError(error);
+  const problem: ProblemDetails = {
+    type: `/problems/${code}`,
+    title,
+    status,
+    detail: error.message,
+    instance,
+    code,
+    correlationId,
+  };
+
+  switch (error.kind) {
+    case "validation":
+      return { ...problem, field: error.field };
+    case "ambiguous-location":
+      return {
+        ...problem,
+        options: error.candidates.map((candidate) => ({
+          label: describeLocation(candidate),
+          ...candidate,
+        })),
+      };
+    case "rate-limited":
+    case "upstream-unavailable":
+      return error.retryAfterMs === undefined
+        ? problem
+        : { ...problem, retryAfter: Math.ceil(error.retryAfterMs / 1000) };
+    default:
+      return problem;
+  }
+}
+
+// The request path without its query string, which may carry an API key
+export function problemInstance(req: Request): string {
+  return req.originalUrl.split("?", 1)[0];
+}
+
+// Counted here so event stream errors are included too
+export function requestProblem(
+  req: Request,
+  res: Response,
+  error: AppError
+): ProblemDetails {
+  metrics.recordError(error, "http");
+  return toProblem(
+    error,
+    requestContextOf(res).correlationId,
+    problemInstance(req)
+  );
+}
+
+// Every error response goes through here so they all look the same
+export function sendProblem(req: Request, res: Response, error: AppError) {
+  const problem = requestProblem(req, res, error);
+
+  if (problem.status >= 500) {
+    requestLogger(requestContextOf(res)).error("Request failed", {
+      method: req.method,
+      path: problemInstance(req),
+      err: error,
+    });
+  }
+  if (problem.retryAfter !== undefined) {
+    res.set("Retry-After", String(problem.retryAfter));
+  }
+
+  res
+    .status(problem.status)
+    .type("application/problem+json")
+    .send(JSON.stringify(problem));
+}
+
+// Errors thrown by middleware we don't own, e.g. the LINE SDK and the body
+// parser
+function toAppError(error: unknown): AppError {
+  if (error instanceof SignatureValidationFailed) {
+    return errors.unauthorized("Invalid LINE signature");
+  }
+  if (error instanceof JSONParseError) {
+    return errors.validation("Request body is not valid JSON");
+  }
+  if (
+    error instanceof Error &&
+    "type" in error &&
+    error.type === "entity.parse.failed"
+  ) {
+    return errors.validation("Request body is not valid JSON");
+  }
+  return errors.infrastructure("Unexpected error", error);
+}
+
+export const notFoundHandler: RequestHandler = (req, res) => {
+  sendProblem(req, res, errors.notFound("route", req.path));
+};
+
+export function createErrorHandler(): ErrorRequestHandler {
+  return (error, req, res, next) => {
+    // Too late for a problem response; let Express close the connection
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+    sendProblem(req, res, toAppError(error));
+  };
+}
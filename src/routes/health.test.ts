@@ -0,0 +1,123 @@
+import { Client } from "@libsql/client";
+import { describe, expect, it } from "bun:test";
+import request from "supertest";
+import { createMemoryCacheStore } from "../infrastructure/cache.js";
+import { checkModelCredentials } from "../mastra/models/index.js";
+import { createHealthChecks } from "../services/health.js";
+import { createTestApp } from "../testing/app.js";
+import { ok } from "../utils/result.js";
+
+describe("GET /healthz", () => {
+  it("answers without checking dependencies", async () => {
+    const { app, openMeteo } = createTestApp();
+    openMeteo.failWith(503);
+
+    const res = await request(app).get("/healthz");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: "ok" });
+    expect(openMeteo.requests).toHaveLength(0);
+  });
+});
+
+describe("GET /readyz", () => {
+  it("reports every dependency", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app).get("/readyz");
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("ready");
+    expect(Object.keys(res.body.checks).sort()).toEqual([
+      "cache",
+      "config",
+      "llm",
+      "openMeteo",
+      "storage",
+    ]);
+    for (const check of Object.values(res.body.checks)) {
+      expect(check).toMatchObject({ status: "ok" });
+    }
+  });
+
+  it("is unavailable while Open-Meteo is down", async () => {
+    const { app, openMeteo } = createTestApp();
+    openMeteo.failWith(503);
+
+    const res = await request(app).get("/readyz");
+
+    expect(res.status).toBe(503);
+    expect(res.body.status).toBe("unavailable");
+    expect(res.body.checks.openMeteo.status).toBe("fail");
+    expect(res.body.checks.openMeteo.detail).toContain("503");
+    expect(res.body.checks.storage.status).toBe("ok");
+  });
+
+  it("reuses the last Open-Meteo probe", async () => {
+    const { app, openMeteo } = createTestApp();
+
+    await request(app).get("/readyz");
+    await request(app).get("/readyz");
+
+    // One probe per base URL
+    expect(openMeteo.requests).toHaveLength(2);
+  });
+});
+
+describe("createHealthChecks", () => {
+  it("fails the storage check when the database hangs", async () => {
+    const health = createHealthChecks({
+      checkConfig: () => ok(undefined),
+      checkModels: () => ok(undefined),
+      openMeteoUrls: [],
+      db: { execute: () => new Promise(() => {}) } as unknown as Client,
+      cacheStore: createMemoryCacheStore(),
+      timeoutMs: 20,
+    });
+
+    const report = await health.readiness();
+
+    expect(report.status).toBe("unavailable");
+    expect(report.checks.storage).toMatchObject({
+      status: "fail",
+      detail: "database request timed out",
+    });
+    expect(report.checks.cache.status).toBe("ok");
+  });
+});
+
+describe("checkModelCredentials", () => {
+  const models = {
+    intent: { provider: "google" as const, modelId: "gemini-2.5-flash" },
+    planning: { provider: "openai" as const, modelId: "gpt-4o" },
+    fallback: undefined,
+  };
+  const noCredentials = {
+    googleApiKey: undefined,
+    openaiApiKey: undefined,
+    anthropicApiKey: undefined,
+    openaiCompatibleBaseUrl: undefined,
+    openaiCompatibleApiKey: undefined,
+  };
+
+  it("passes when every provider in use has credentials", () => {
+    const result = checkModelCredentials(models, {
+      ...noCredentials,
+      googleApiKey: "google-key",
+      openaiApiKey: "openai-key",
+    });
+
+    expect(result.kind).toBe("ok");
+  });
+
+  it("names the roles missing credentials", () => {
+    const result = checkModelCredentials(models, {
+      ...noCredentials,
+      googleApiKey: "google-key",
+    });
+
+    expect(result.kind === "err" && result.error.message).toBe(
+      "Missing provider credentials for planning (openai)"
+    );
+  });
+});
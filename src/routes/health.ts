@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { HealthChecks } from "../services/health.js";
+
+export type HealthRouterDeps = {
+  health: HealthChecks;
+};
+
+export function createHealthRouter(deps: HealthRouterDeps): Router {
+  const router = Router();
+
+  // Liveness: the process answers. Dependencies aren't checked, so an
+  // upstream outage doesn't get healthy instances restarted.
+  router.get("/healthz", (req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  // Readiness, with a status per dependency
+  router.get("/readyz", async (req, res) => {
+    const report = await deps.health.readiness();
+    res.status(report.status === "ready" ? 200 : 503).json(report);
+  });
+
+  return router;
+}
@@ -0,0 +1,232 @@
+import { MessageEvent } from "@line/bot-sdk";
+import { describe, expect, it } from "bun:test";
+import { Express } from "express";
+import request from "supertest";
+import { TEST_CHANNEL_SECRET, createTestApp } from "../testing/app.js";
+import {
+  lineWebhookBody,
+  messageEvent,
+  signLineBody,
+} from "../testing/line.js";
+import { tokyoPlan } from "../testing/plans.js";
+
+function postWebhook(app: Express, events: MessageEvent[]) {
+  const body = lineWebhookBody(events);
+  return request(app)
+    .post("/api/line/webhook")
+    .set("Content-Type", "application/json")
+    .set("x-line-signature", signLineBody(body, TEST_CHANNEL_SECRET))
+    .send(body);
+}
+
+const intent = (location: string | null) => ({
+  text: JSON.stringify({
+    type: "current-weather",
+    location,
+    dateRange: null,
+    activityType: null,
+  }),
+});
+
+describe("GET /api/line/webhook", () => {
+  it("reports the webhook is up", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app).get("/api/line/webhook");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: "ok" });
+  });
+});
+
+describe("POST /api/line/webhook", () => {
+  it("replies to a weather question with the plan", async () => {
+    const { app, line, models } = createTestApp({
+      intentTurns: [intent("東京")],
+      agentTurns: [
+        {
+          toolCalls: [{ toolName: "weatherTool", args: { location: "Tokyo" } }],
+        },
+        { text: JSON.stringify(tokyoPlan) },
+      ],
+    });
+    const event = messageEvent({ type: "text", text: "東京の天気" });
+
+    const res = await postWebhook(app, [event]);
+
+    expect(res.status).toBe(200);
+    expect(line.replies).toHaveLength(1);
+    expect(line.replies[0].replyToken).toBe(event.replyToken);
+    // Tomorrow's heavy rain alert first, then today's plan
+    expect(line.replies[0].messages.map((message) => message.type)).toEqual([
+      "text",
+      "flex",
+    ]);
+    expect(JSON.stringify(models.intent.calls[0].prompt)).toContain(
+      "東京の天気"
+    );
+  });
+
+  it("asks for a city when there is no earlier conversation", async () => {
+    const { app, line, models } = createTestApp({
+      intentTurns: [intent(null)],
+    });
+
+    await postWebhook(app, [messageEvent({ type: "text", text: "天気は？" })]);
+
+    expect(line.replies[0].messages[0]).toMatchObject({
+      type: "text",
+      text: expect.stringContaining("Which city?"),
+    });
+    expect(models.agent.calls).toHaveLength(0);
+  });
+
+  it("tells the intent model the date in Japan", async () => {
+    const { app, models } = createTestApp({
+      intentTurns: [intent("東京")],
+      agentTurns: [{ text: "Rain is likely in Tokyo tomorrow." }],
+      // 07:30 in Tokyo, still the day before in UTC
+      now: () => new Date("2025-06-14T22:30:00Z"),
+    });
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "明日の東京の天気" }),
+    ]);
+
+    expect(JSON.stringify(models.intent.calls[0].prompt)).toContain(
+      "Today is 2025-06-15."
+    );
+  });
+
+  it("gives the intent model the earlier conversation", async () => {
+    const { app, models } = createTestApp({
+      intentTurns: [intent("東京")],
+      agentTurns: [{ text: "Tomorrow looks rainy in Tokyo." }],
+      history: [
+        { role: "user", content: "東京の天気" },
+        { role: "assistant", content: "Sunny in Tokyo today." },
+      ],
+    });
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "what about tomorrow?" }),
+    ]);
+
+    const prompt = JSON.stringify(models.intent.calls[0].prompt);
+    expect(prompt).toContain("User: 東京の天気");
+    expect(prompt).toContain("Bot: Sunny in Tokyo today.");
+  });
+
+  it("offers a picker for an ambiguous city", async () => {
+    const { app, line } = createTestApp({
+      intentTurns: [intent("Springfield")],
+    });
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "Weather in Springfield" }),
+    ]);
+
+    const [message] = line.replies[0].messages;
+    expect(message.type).toBe("text");
+    expect(message).toHaveProperty("quickReply");
+  });
+
+  it("says so when the city can't be found", async () => {
+    const { app, line, models } = createTestApp({
+      intentTurns: [intent("Atlantis")],
+    });
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "Weather in Atlantis" }),
+    ]);
+
+    expect(line.replies[0].messages[0]).toMatchObject({
+      type: "text",
+      text: expect.stringContaining('couldn\'t find a place called "Atlantis"'),
+    });
+    expect(models.agent.calls).toHaveLength(0);
+  });
+
+  it("answers a shared location without asking the intent model", async () => {
+    const { app, line, models } = createTestApp({
+      agentTurns: [
+        {
+          toolCalls: [
+            {
+              toolName: "weatherTool",
+              args: { latitude: 35.66, longitude: 139.7, location: "Shibuya" },
+            },
+          ],
+        },
+        { text: JSON.stringify(tokyoPlan) },
+      ],
+    });
+
+    await postWebhook(app, [
+      messageEvent({
+        type: "location",
+        latitude: 35.66,
+        longitude: 139.7,
+        title: "Shibuya",
+      }),
+    ]);
+
+    expect(line.replies[0].messages.at(-1)?.type).toBe("flex");
+    expect(models.intent.calls).toHaveLength(0);
+  });
+
+  it("saves settings sent as commands", async () => {
+    const { app, line } = createTestApp();
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "set home 札幌" }),
+    ]);
+    await postWebhook(app, [messageEvent({ type: "text", text: "settings" })]);
+
+    expect(line.replies[1].messages[0]).toMatchObject({
+      text: expect.stringContaining("札幌"),
+    });
+  });
+
+  it("leaves the language up to the user until they pick one", async () => {
+    const { app, line } = createTestApp();
+
+    await postWebhook(app, [messageEvent({ type: "text", text: "settings" })]);
+
+    expect(line.replies[0].messages[0]).toMatchObject({
+      text: expect.stringContaining("Language: not set"),
+    });
+  });
+
+  it("replies without internal details when the model fails", async () => {
+    const { app, line } = createTestApp({
+      intentTurns: [{ error: new Error("upstream 529 overloaded") }],
+    });
+
+    await postWebhook(app, [
+      messageEvent({ type: "text", text: "東京の天気" }),
+    ]);
+
+    expect(line.replies[0].messages[0]).toMatchObject({
+      type: "text",
+      text: "The assistant isn't available right now. Please try again in a moment.",
+    });
+  });
+
+  it("rejects requests with a bad signature", async () => {
+    const { app, line } = createTestApp();
+    const body = lineWebhookBody([
+      messageEvent({ type: "text", text: "東京の天気" }),
+    ]);
+
+    const res = await request(app)
+      .post("/api/line/webhook")
+      .set("Content-Type", "application/json")
+      .set("x-line-signature", signLineBody(body, "some-other-secret"))
+      .send(body);
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe("unauthorized");
+    expect(line.replies).toHaveLength(0);
+  });
+});
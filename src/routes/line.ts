@@ -0,0 +1,54 @@
+import { WebhookEvent, middleware } from "@line/bot-sdk";
+import express, { Router } from "express";
+import { errors } from "../utils/result.js";
+import { sendProblem } from "./errors.js";
+
+export type LineRouterDeps = {
+  channelSecret: string;
+  handleEvent: (event: WebhookEvent) => Promise<unknown>;
+};
+
+export function createLineRouter(deps: LineRouterDeps): Router {
+  const router = Router();
+
+  // Lets the LINE console's verify button reach us; /readyz has the details
+  router.get("/api/line/webhook", (req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  // LINE webhook endpoint - Use middleware correctly
+  router.post(
+    "/api/line/webhook",
+    express.raw({ type: "application/json" }),
+    (req, res, next) => {
+      // Convert raw body to string for middleware
+      req.body = req.body.toString();
+      next();
+    },
+    // A bad signature goes on to the app's error handler as a 401
+    middleware({ channelSecret: deps.channelSecret }),
+    async (req, res) => {
+      try {
+        const events: WebhookEvent[] = req.body.events;
+
+        if (!events || events.length === 0) {
+          res.status(200).json({ status: "ok" });
+          return;
+        }
+
+        // Process all events asynchronously
+        await Promise.all(events.map(deps.handleEvent));
+
+        res.status(200).json({ status: "ok" });
+      } catch (error) {
+        sendProblem(
+          req,
+          res,
+          errors.infrastructure("Failed to handle LINE events", error)
+        );
+      }
+    }
+  );
+
+  return router;
+}
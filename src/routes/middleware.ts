@@ -0,0 +1,115 @@
+import { Request, RequestHandler } from "express";
+import {
+  ApiKey,
+  ApiKeyScope,
+  authenticate,
+  sameSecret,
+} from "../domain/api-keys.js";
+import { requestLogger } from "../infrastructure/logger.js";
+import { RateLimiter } from "../infrastructure/rate-limit.js";
+import { errors, isErr, unwrap, unwrapErr } from "../utils/result.js";
+import { requestContextOf } from "./context.js";
+import { sendProblem } from "./errors.js";
+
+export type ApiKeyOptions = {
+  // Also accept ?api_key=, for EventSource clients that can't set headers.
+  // Query strings end up in logs, so only the stream endpoint allows it.
+  allowQuery?: boolean;
+};
+
+function presentedApiKey(
+  req: Request,
+  { allowQuery = false }: ApiKeyOptions
+): string | undefined {
+  const bearer = req.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const query =
+    allowQuery && typeof req.query.api_key === "string"
+      ? req.query.api_key
+      : undefined;
+  return req.get("X-API-Key") ?? bearer ?? query;
+}
+
+// Optional API key auth for the public endpoints; with no keys configured
+// every request passes
+export function createApiKeyAuth(apiKeys: readonly ApiKey[]) {
+  return (scope: ApiKeyScope, options: ApiKeyOptions = {}): RequestHandler =>
+    (req, res, next) => {
+      if (apiKeys.length === 0) {
+        next();
+        return;
+      }
+
+      const authResult = authenticate(
+        apiKeys,
+        presentedApiKey(req, options),
+        scope
+      );
+
+      if (isErr(authResult)) {
+        const error = unwrapErr(authResult);
+        requestLogger(requestContextOf(res)).warn("Rejected API key", {
+          method: req.method,
+          path: req.path,
+          reason: error.message,
+        });
+        if (!error.scope) {
+          res.set("WWW-Authenticate", 'Bearer realm="api"');
+        }
+        sendProblem(req, res, error);
+        return;
+      }
+
+      // Usage is tracked per key name, never the key itself
+      const { name } = unwrap(authResult);
+      res.locals.apiKeyName = name;
+      requestLogger(requestContextOf(res)).info("API key used", {
+        apiKey: name,
+        method: req.method,
+        path: req.path,
+      });
+      next();
+    };
+}
+
+export type RequireApiKey = ReturnType<typeof createApiKeyAuth>;
+
+// Limits each client IP
+export function createRateLimit(limiter: RateLimiter): RequestHandler {
+  return (req, res, next) => {
+    const decision = limiter.take(req.ip ?? "unknown");
+
+    if (!decision.allowed) {
+      sendProblem(
+        req,
+        res,
+        errors.rateLimited("Too many requests", decision.retryAfterMs)
+      );
+      return;
+    }
+
+    next();
+  };
+}
+
+// Scheduler endpoints are only callable with the shared secret
+export function createSchedulerAuth(
+  secret: string | undefined
+): RequestHandler {
+  return (req, res, next) => {
+    if (!secret) {
+      sendProblem(
+        req,
+        res,
+        errors.infrastructure("Scheduler is not configured")
+      );
+      return;
+    }
+
+    if (!sameSecret(req.get("X-Scheduler-Secret") ?? "", secret)) {
+      sendProblem(req, res, errors.unauthorized("Invalid scheduler secret"));
+      return;
+    }
+
+    next();
+  };
+}
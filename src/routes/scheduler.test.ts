@@ -0,0 +1,168 @@
+import { describe, expect, it } from "bun:test";
+import { Express } from "express";
+import request from "supertest";
+import { DEFAULT_TIMEZONE } from "../domain/subscriptions.js";
+import {
+  TEST_CHANNEL_SECRET,
+  TEST_SCHEDULER_SECRET,
+  createTestApp,
+} from "../testing/app.js";
+import {
+  lineWebhookBody,
+  messageEvent,
+  signLineBody,
+} from "../testing/line.js";
+import { tokyoPlan } from "../testing/plans.js";
+import { unwrap } from "../utils/result.js";
+
+// 07:05 in Tokyo
+const morning = () => new Date("2025-06-13T22:05:00Z");
+
+const subscription = {
+  userId: "Usubscriber",
+  city: "Tokyo, Japan",
+  hour: 7,
+  minute: 0,
+  timezone: DEFAULT_TIMEZONE,
+  lastSentDate: null,
+};
+
+function subscribeOverLine(app: Express, text: string) {
+  const body = lineWebhookBody([
+    messageEvent({ type: "text", text }, "Usubscriber"),
+  ]);
+  return request(app)
+    .post("/api/line/webhook")
+    .set("Content-Type", "application/json")
+    .set("x-line-signature", signLineBody(body, TEST_CHANNEL_SECRET))
+    .send(body);
+}
+
+describe("POST /api/scheduler/run", () => {
+  it("pushes due briefings once a day", async () => {
+    const { app, line, subscriptions } = createTestApp({
+      plannerTurns: [{ text: JSON.stringify(tokyoPlan) }],
+      now: morning,
+    });
+    await subscriptions.create(subscription);
+
+    const res = await request(app)
+      .post("/api/scheduler/run")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+    const again = await request(app)
+      .post("/api/scheduler/run")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ due: 1, sent: 1, failed: [] });
+    expect(again.body.due).toBe(0);
+    expect(line.pushes).toHaveLength(1);
+    expect(line.pushes[0].to).toBe("Usubscriber");
+    expect(line.pushes[0].messages[0].type).toBe("flex");
+  });
+
+  it("sends each briefing once when runs overlap", async () => {
+    const { app, line, subscriptions } = createTestApp({
+      plannerTurns: [
+        { text: JSON.stringify(tokyoPlan) },
+        { text: JSON.stringify(tokyoPlan) },
+      ],
+      now: morning,
+    });
+    await subscriptions.create(subscription);
+
+    const runs = await Promise.all(
+      [1, 2].map(() =>
+        request(app)
+          .post("/api/scheduler/run")
+          .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET)
+      )
+    );
+
+    expect(runs.map((res) => res.body.sent).sort()).toEqual([0, 1]);
+    expect(line.pushes).toHaveLength(1);
+  });
+
+  it("starts a briefing set up after its time on the next day", async () => {
+    const { app, line, subscriptions } = createTestApp({ now: morning });
+
+    await subscribeOverLine(app, "subscribe 6:30 Tokyo");
+    const res = await request(app)
+      .post("/api/scheduler/run")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+
+    expect(res.body.due).toBe(0);
+    expect(line.pushes).toHaveLength(0);
+    const [saved] = unwrap(await subscriptions.listByUser("Usubscriber"));
+    expect(saved.lastSentDate).toBe("2025-06-14");
+  });
+
+  it("schedules briefings in the city's own timezone", async () => {
+    const { app, subscriptions } = createTestApp({ now: morning });
+
+    await subscribeOverLine(app, "subscribe 12:00 Springfield, Massachusetts");
+
+    const [saved] = unwrap(await subscriptions.listByUser("Usubscriber"));
+    expect(saved.timezone).toBe("America/New_York");
+    // Already 18:05 on the 13th there, though only 07:05 in Tokyo
+    expect(saved.lastSentDate).toBe("2025-06-13");
+  });
+
+  it("reports briefings that failed", async () => {
+    const { app, line, subscriptions } = createTestApp({
+      plannerTurns: [{ error: new Error("model overloaded") }],
+      now: morning,
+    });
+    await subscriptions.create(subscription);
+
+    const res = await request(app)
+      .post("/api/scheduler/run")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sent).toBe(0);
+    expect(res.body.failed).toEqual([
+      { id: 1, error: "Failed to plan activities", type: "llm-failure" },
+    ]);
+    expect(line.pushes).toHaveLength(0);
+  });
+
+  it("requires the scheduler secret", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app)
+      .post("/api/scheduler/run")
+      .set("X-Scheduler-Secret", "wrong");
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("POST /api/scheduler/alerts", () => {
+  it("pushes new severe weather alerts to subscribers", async () => {
+    const { app, line, subscriptions } = createTestApp();
+    await subscriptions.create(subscription);
+
+    const res = await request(app)
+      .post("/api/scheduler/alerts")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+    const again = await request(app)
+      .post("/api/scheduler/alerts")
+      .set("X-Scheduler-Secret", TEST_SCHEDULER_SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ locations: 1, notified: 1, failed: [] });
+    // Alerts already sent aren't repeated
+    expect(again.body.notified).toBe(0);
+    expect(line.pushes).toHaveLength(1);
+    expect(line.pushes[0].messages[0]).toMatchObject({ type: "text" });
+  });
+
+  it("requires the scheduler secret", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app).post("/api/scheduler/alerts");
+
+    expect(res.status).toBe(401);
+  });
+});
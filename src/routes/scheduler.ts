@@ -0,0 +1,69 @@
+import { RequestHandler, Router } from "express";
+import { AlertNotifier } from "../scheduler/alerts.js";
+import { BriefingScheduler } from "../scheduler/index.js";
+import { isErr, unwrap, unwrapErr } from "../utils/result.js";
+import { sendProblem } from "./errors.js";
+
+export type SchedulerRouterDeps = {
+  briefingScheduler: BriefingScheduler;
+  alertNotifier: AlertNotifier;
+  requireSchedulerSecret: RequestHandler;
+};
+
+export function createSchedulerRouter(deps: SchedulerRouterDeps): Router {
+  const { briefingScheduler, alertNotifier, requireSchedulerSecret } = deps;
+  const router = Router();
+
+  // Trigger due daily briefings (called by Cloud Scheduler)
+  router.post(
+    "/api/scheduler/run",
+    requireSchedulerSecret,
+    async (req, res) => {
+      const result = await briefingScheduler.runDue();
+
+      if (isErr(result)) {
+        sendProblem(req, res, unwrapErr(result));
+        return;
+      }
+
+      const summary = unwrap(result);
+      res.json({
+        due: summary.due,
+        sent: summary.sent,
+        failed: summary.failed.map(({ id, error }) => ({
+          id,
+          error: error.message,
+          type: error.kind,
+        })),
+      });
+    }
+  );
+
+  // Check subscribed locations for severe weather (called by Cloud Scheduler)
+  router.post(
+    "/api/scheduler/alerts",
+    requireSchedulerSecret,
+    async (req, res) => {
+      const result = await alertNotifier.checkAlerts();
+
+      if (isErr(result)) {
+        sendProblem(req, res, unwrapErr(result));
+        return;
+      }
+
+      const summary = unwrap(result);
+      res.json({
+        locations: summary.locations,
+        notified: summary.notified,
+        failed: summary.failed.map(({ city, userId, error }) => ({
+          city,
+          userId,
+          error: error.message,
+          type: error.kind,
+        })),
+      });
+    }
+  );
+
+  return router;
+}
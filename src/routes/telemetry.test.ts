@@ -0,0 +1,91 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import { beforeEach, describe, expect, it } from "bun:test";
+import request from "supertest";
+import { createTestApp } from "../testing/app.js";
+import { tokyoPlan } from "../testing/plans.js";
+import { resetSpans, traceOf } from "../testing/telemetry.js";
+
+const weatherTurns = [
+  { toolCalls: [{ toolName: "weatherTool", args: { location: "Tokyo" } }] },
+  { text: JSON.stringify(tokyoPlan) },
+];
+
+beforeEach(resetSpans);
+
+describe("tracing", () => {
+  it("traces a request through the agent, its tool and Open-Meteo", async () => {
+    const { app } = createTestApp({ agentTurns: weatherTurns });
+
+    await request(app)
+      .get("/api/weather")
+      .set("X-Request-Id", "req-trace")
+      .query({ city: "Tokyo" });
+
+    const spans = traceOf("GET /api/weather");
+    const names = spans.map((span) => span.name);
+    expect(names).toContain("weather-agent generate");
+    expect(names).toContain("tool get-weather");
+    expect(names).toContain("GET geocoding");
+    expect(names).toContain("GET weather");
+    expect(names).toContain("llm fake/scripted");
+
+    const root = spans.find((span) => span.name === "GET /api/weather");
+    expect(root?.attributes["http.response.status_code"]).toBe(200);
+    expect(root?.attributes["app.correlation_id"]).toBe("req-trace");
+    const model = spans.find((span) => span.name === "llm fake/scripted");
+    expect(model?.attributes["gen_ai.usage.output_tokens"]).toBe(20);
+  });
+
+  it("marks failed upstream calls with the error kind", async () => {
+    const { app, openMeteo } = createTestApp();
+    openMeteo.failWith(503);
+
+    await request(app).get("/api/weather").query({ city: "Tokyo" });
+
+    const geocoding = traceOf("GET /api/weather").find(
+      (span) => span.name === "GET geocoding"
+    );
+    expect(geocoding?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(geocoding?.attributes["app.error.kind"]).toBe("weather-api");
+    expect(geocoding?.attributes["http.response.status_code"]).toBe(503);
+  });
+
+  it("continues the caller's trace", async () => {
+    const { app } = createTestApp();
+    const traceId = "0af7651916cd43dd8448eb211c80319c";
+
+    await request(app)
+      .get("/api/weather")
+      .set("traceparent", `00-${traceId}-b7ad6b7169203331-01`);
+
+    const [root] = traceOf("GET /api/weather");
+    expect(root.spanContext().traceId).toBe(traceId);
+  });
+});
+
+describe("GET /metrics", () => {
+  it("counts requests, errors, upstream latency and tokens", async () => {
+    const { app, openMeteo } = createTestApp({ agentTurns: weatherTurns });
+
+    await request(app).get("/api/weather").query({ city: "Tokyo" });
+    await request(app).get("/api/weather").query({ city: "Atlantis" });
+    openMeteo.failWith(503);
+    await request(app).get("/api/weather").query({ city: "Osaka" });
+
+    const res = await request(app).get("/metrics");
+
+    expect(res.status).toBe(200);
+    expect(res.text).toMatch(
+      /http_requests_total\{method="GET",route="\/api\/weather",status="200"\} \d+/
+    );
+    expect(res.text).toMatch(
+      /app_errors_total\{kind="not-found",channel="http"\}/
+    );
+    expect(res.text).toMatch(
+      /upstream_request_duration_seconds_bucket\{service="geocoding",outcome="weather-api",le="0.05"\}/
+    );
+    expect(res.text).toMatch(
+      /llm_tokens_total\{model="fake\/scripted",type="input"\} \d+/
+    );
+  });
+});
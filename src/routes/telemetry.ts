@@ -0,0 +1,54 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import { Request, RequestHandler, Router } from "express";
+import { metrics } from "../infrastructure/metrics.js";
+import { startServerSpan } from "../infrastructure/telemetry.js";
+import { requestContextOf } from "./context.js";
+
+// The route pattern rather than the path, so ids in URLs don't turn into
+// a label per request
+function routeOf(req: Request): string {
+  return req.route?.path ? String(req.route.path) : "unmatched";
+}
+
+// One span per request, parent of everything the handler does, and the
+// request counts on /metrics
+export const traceRequests: RequestHandler = (req, res, next) => {
+  const { span, run } = startServerSpan(
+    req.method,
+    {
+      "http.request.method": req.method,
+      "url.path": req.path,
+      "app.correlation_id": requestContextOf(res).correlationId,
+    },
+    req.headers
+  );
+
+  // "close" also fires when the client goes away mid-response, e.g. an
+  // abandoned event stream
+  res.on("close", () => {
+    const route = routeOf(req);
+    span.updateName(`${req.method} ${route}`);
+    span.setAttributes({
+      "http.route": route,
+      "http.response.status_code": res.statusCode,
+    });
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+    metrics.recordRequest(req.method, route, res.statusCode);
+  });
+
+  run(next);
+};
+
+export function createMetricsRouter(): Router {
+  const router = Router();
+
+  // Prometheus text format, for a scraper or a sidecar collector
+  router.get("/metrics", (req, res) => {
+    metrics.serve(req, res);
+  });
+
+  return router;
+}
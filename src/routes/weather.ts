@@ -0,0 +1,258 @@
+import { RequestHandler, Response, Router } from "express";
+import {
+  PlaceQuery,
+  describePlaceQuery,
+  parseCoordinates,
+} from "../domain/locations.js";
+import { requestLogger } from "../infrastructure/logger.js";
+import {
+  AgentStreamEvent,
+  WeatherService,
+  WeatherSuggestion,
+  weatherPrompt,
+} from "../services/weather.js";
+import {
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+import { requestContextOf } from "./context.js";
+import { ProblemDetails, requestProblem, sendProblem } from "./errors.js";
+import { RequireApiKey } from "./middleware.js";
+
+export type WeatherRouterDeps = {
+  weather: WeatherService;
+  requireApiKey: RequireApiKey;
+  rateLimit: RequestHandler;
+};
+
+// Type for weather request validation
+type WeatherRequest = PlaceQuery;
+
+// A city name, or lat/lon with an optional city to show for the point
+function toPlaceRequest(
+  city: unknown,
+  latitude: unknown,
+  longitude: unknown,
+  missingCity: string
+): Result<PlaceQuery, ValidationError> {
+  const name = typeof city === "string" && city ? city : undefined;
+  const coordinatesResult = parseCoordinates(latitude, longitude);
+
+  if (coordinatesResult) {
+    if (isErr(coordinatesResult)) {
+      return coordinatesResult;
+    }
+    return ok({
+      kind: "coordinates",
+      coordinates: unwrap(coordinatesResult),
+      name,
+    });
+  }
+
+  if (!name) {
+    return err(errors.validation(missingCity, "city"));
+  }
+  return ok({ kind: "name", name });
+}
+
+// Validate weather request
+function validateWeatherRequest(
+  query: any
+): Result<WeatherRequest, ValidationError> {
+  return toPlaceRequest(
+    query.city,
+    query.lat,
+    query.lon,
+    "City or lat/lon parameters are required"
+  );
+}
+
+// Type for suggest request
+type SuggestRequest = PlaceQuery;
+
+// Validate suggest request
+function validateSuggestRequest(
+  body: any
+): Result<SuggestRequest, ValidationError> {
+  if (!body || typeof body !== "object") {
+    return err(errors.validation("Request body is required"));
+  }
+
+  return toPlaceRequest(
+    body.city,
+    body.lat,
+    body.lon,
+    "City or lat/lon is required"
+  );
+}
+
+// Server-Sent Events emitted by the streaming endpoint
+type WeatherStreamEvent =
+  | AgentStreamEvent
+  | { event: "result"; data: WeatherSuggestion }
+  | { event: "error"; data: ProblemDetails };
+
+function writeEvent(res: Response, { event, data }: WeatherStreamEvent) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function createWeatherRouter(deps: WeatherRouterDeps): Router {
+  const { weather, requireApiKey, rateLimit } = deps;
+  const router = Router();
+
+  // Weather endpoint
+  router.get(
+    "/api/weather",
+    rateLimit,
+    requireApiKey("read"),
+    async (req, res) => {
+      // Validate request
+      const validationResult = validateWeatherRequest(req.query);
+
+      if (isErr(validationResult)) {
+        sendProblem(req, res, unwrapErr(validationResult));
+        return;
+      }
+
+      // Get weather data
+      const weatherResult = await weather.getWeatherData(
+        unwrap(validationResult),
+        requestContextOf(res)
+      );
+
+      if (isErr(weatherResult)) {
+        sendProblem(req, res, unwrapErr(weatherResult));
+        return;
+      }
+
+      res.json(unwrap(weatherResult));
+    }
+  );
+
+  // Streaming weather endpoint (Server-Sent Events)
+  router.get(
+    "/api/weather/stream",
+    rateLimit,
+    requireApiKey("suggest", { allowQuery: true }),
+    async (req, res) => {
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+
+      // Stop the agent when the client goes away before we finish
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) {
+          controller.abort();
+        }
+      });
+
+      const send = (event: WeatherStreamEvent) => writeEvent(res, event);
+
+      // EventSource can't read error bodies, so validation errors are events too
+      const validationResult = validateWeatherRequest(req.query);
+
+      if (isErr(validationResult)) {
+        send({
+          event: "error",
+          data: requestProblem(req, res, unwrapErr(validationResult)),
+        });
+        res.end();
+        return;
+      }
+
+      const request = requestContextOf(res);
+      const log = requestLogger(request);
+      log.info("Streaming weather", {
+        place: describePlaceQuery(unwrap(validationResult)),
+      });
+
+      const resolvedResult = await weather.resolvePlace(
+        unwrap(validationResult),
+        request
+      );
+
+      if (isErr(resolvedResult)) {
+        send({
+          event: "error",
+          data: requestProblem(req, res, unwrapErr(resolvedResult)),
+        });
+        res.end();
+        return;
+      }
+
+      const place = unwrap(resolvedResult);
+
+      const [replyResult, alerts] = await Promise.all([
+        weather.streamWeatherAgent(
+          weatherPrompt(place),
+          request,
+          send,
+          controller.signal
+        ),
+        weather.loadAlerts(place, request),
+      ]);
+
+      if (controller.signal.aborted) {
+        log.info("Weather stream closed by client", {
+          place: describePlaceQuery(place),
+        });
+        return;
+      }
+
+      if (isErr(replyResult)) {
+        send({
+          event: "error",
+          data: requestProblem(req, res, unwrapErr(replyResult)),
+        });
+      } else {
+        send({ event: "result", data: { ...unwrap(replyResult), alerts } });
+      }
+
+      res.end();
+    }
+  );
+
+  // Weather suggest endpoint
+  router.post(
+    "/api/weather/suggest",
+    rateLimit,
+    requireApiKey("suggest"),
+    async (req, res) => {
+      // Validate request
+      const validationResult = validateSuggestRequest(req.body);
+
+      if (isErr(validationResult)) {
+        sendProblem(req, res, unwrapErr(validationResult));
+        return;
+      }
+
+      // Get weather with suggestions
+      const weatherResult = await weather.getWeatherData(
+        unwrap(validationResult),
+        requestContextOf(res)
+      );
+
+      if (isErr(weatherResult)) {
+        sendProblem(req, res, unwrapErr(weatherResult));
+        return;
+      }
+
+      res.json({
+        ...unwrap(weatherResult),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import { Express } from "express";
+import request from "supertest";
+import { createTestApp } from "../testing/app.js";
+import { tokyoPlan } from "../testing/plans.js";
+
+// Runs finish in the background, so poll until one settles
+async function waitForRun(app: Express, location: string) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const res = await request(app).get(location);
+    if (res.body.status !== "running") {
+      return res;
+    }
+    await Bun.sleep(10);
+  }
+  throw new Error(`Run ${location} did not finish`);
+}
+
+describe("POST /api/workflows/weather/runs", () => {
+  it("runs the workflow in the background", async () => {
+    const { app } = createTestApp({
+      plannerTurns: [{ text: JSON.stringify(tokyoPlan) }],
+    });
+
+    const res = await request(app)
+      .post("/api/workflows/weather/runs")
+      .send({ city: "Tokyo", days: 2 });
+
+    expect(res.status).toBe(202);
+    expect(res.body.status).toBe("running");
+    expect(res.headers.location).toBe(
+      `/api/workflows/weather/runs/${res.body.runId}`
+    );
+
+    const run = await waitForRun(app, res.headers.location);
+
+    expect(run.status).toBe(200);
+    expect(run.body.status).toBe("success");
+    expect(run.body.steps["fetch-weather"].output.days).toHaveLength(2);
+    expect(run.body.result.plan).toEqual(tokyoPlan);
+  });
+
+  it("records which step failed and why", async () => {
+    const { app, models } = createTestApp();
+
+    const res = await request(app)
+      .post("/api/workflows/weather/runs")
+      .send({ city: "Atlantis" });
+
+    const run = await waitForRun(app, res.headers.location);
+
+    expect(run.body.status).toBe("failed");
+    expect(run.body.error).toMatchObject({
+      type: "/problems/not-found",
+      status: 404,
+      code: "not-found",
+    });
+    expect(run.body.steps["fetch-weather"].status).toBe("failed");
+    expect(run.body.steps["fetch-weather"].error.code).toBe("not-found");
+    expect(models.planner.calls).toHaveLength(0);
+  });
+
+  it("validates the number of days", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app)
+      .post("/api/workflows/weather/runs")
+      .send({ city: "Tokyo", days: 17 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.field).toBe("days");
+  });
+});
+
+describe("GET /api/workflows/weather/runs/:id", () => {
+  it("returns 404 for an unknown run", async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app).get("/api/workflows/weather/runs/missing");
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe("not-found");
+  });
+});
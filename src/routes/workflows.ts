@@ -0,0 +1,143 @@
+import { Request, RequestHandler, Response, Router } from "express";
+import { WorkflowRunRecord } from "../domain/workflow-runs.js";
+import { WeatherWorkflowRuns } from "../mastra/workflows/runs.js";
+import {
+  AppError,
+  Result,
+  ValidationError,
+  err,
+  errors,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+import { requestContextOf } from "./context.js";
+import {
+  ProblemDetails,
+  problemInstance,
+  sendProblem,
+  toProblem,
+} from "./errors.js";
+import { RequireApiKey } from "./middleware.js";
+
+export type WorkflowsRouterDeps = {
+  workflowRuns: WeatherWorkflowRuns;
+  requireApiKey: RequireApiKey;
+  rateLimit: RequestHandler;
+};
+
+// Type for workflow run request
+type WorkflowRunRequest = {
+  city: string;
+  days: number;
+};
+
+// Validate workflow run request
+function validateWorkflowRunRequest(
+  body: any
+): Result<WorkflowRunRequest, ValidationError> {
+  if (!body || typeof body !== "object") {
+    return err(errors.validation("Request body is required"));
+  }
+
+  if (!body.city || typeof body.city !== "string") {
+    return err(errors.validation("City is required", "city"));
+  }
+
+  const days = body.days ?? 1;
+  if (!Number.isInteger(days) || days < 1 || days > 16) {
+    return err(
+      errors.validation("Days must be an integer between 1 and 16", "days")
+    );
+  }
+
+  return ok({ city: body.city, days });
+}
+
+type WorkflowRunResponse = Omit<WorkflowRunRecord, "error" | "steps"> & {
+  error: ProblemDetails | null;
+  steps: Record<
+    string,
+    Omit<WorkflowRunRecord["steps"][string], "error"> & {
+      error?: ProblemDetails;
+    }
+  >;
+};
+
+// Run and step errors look like any other error response. They aren't
+// counted on /metrics: the request itself succeeded.
+function toRunResponse(
+  req: Request,
+  res: Response,
+  run: WorkflowRunRecord
+): WorkflowRunResponse {
+  const problem = (error: AppError) =>
+    toProblem(error, requestContextOf(res).correlationId, problemInstance(req));
+
+  return {
+    ...run,
+    error: run.error && problem(run.error),
+    steps: Object.fromEntries(
+      Object.entries(run.steps).map(([id, step]) => [
+        id,
+        { ...step, error: step.error && problem(step.error) },
+      ])
+    ),
+  };
+}
+
+export function createWorkflowsRouter(deps: WorkflowsRouterDeps): Router {
+  const { workflowRuns, requireApiKey, rateLimit } = deps;
+  const router = Router();
+
+  // Start a weather workflow run
+  router.post(
+    "/api/workflows/weather/runs",
+    rateLimit,
+    requireApiKey("suggest"),
+    async (req, res) => {
+      const validationResult = validateWorkflowRunRequest(req.body);
+
+      if (isErr(validationResult)) {
+        sendProblem(req, res, unwrapErr(validationResult));
+        return;
+      }
+
+      const runResult = await workflowRuns.start(
+        unwrap(validationResult),
+        requestContextOf(res)
+      );
+
+      if (isErr(runResult)) {
+        sendProblem(req, res, unwrapErr(runResult));
+        return;
+      }
+
+      const run = unwrap(runResult);
+      res
+        .status(202)
+        .location(`/api/workflows/weather/runs/${run.id}`)
+        .json({ runId: run.id, status: run.status });
+    }
+  );
+
+  // Weather workflow run status, step outputs and errors
+  router.get(
+    "/api/workflows/weather/runs/:id",
+    rateLimit,
+    requireApiKey("read"),
+    async (req, res) => {
+      const runResult = await workflowRuns.get(req.params.id);
+
+      if (isErr(runResult)) {
+        sendProblem(req, res, unwrapErr(runResult));
+        return;
+      }
+
+      res.json(toRunResponse(req, res, unwrap(runResult)));
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import { AlertForecastDay } from "../domain/alerts.js";
+import { DEFAULT_TIMEZONE } from "../domain/subscriptions.js";
+import { createDatabase } from "../infrastructure/database.js";
+import { createSentAlertsRepository } from "../repositories/alerts.js";
+import { createSubscriptionsRepository } from "../repositories/subscriptions.js";
+import { tokyoPlan } from "../testing/plans.js";
+import { ok, unwrap } from "../utils/result.js";
+import { createAlertNotifier } from "./alerts.js";
+import { createBriefingScheduler } from "./index.js";
+
+const stormyDay: AlertForecastDay = {
+  date: "2025-06-14",
+  weatherCode: 65,
+  minTemp: 20,
+  apparentTempMax: 26,
+  windGustMax: 30,
+  precipitationSum: 45,
+  precipitationChance: 90,
+};
+
+// 07:05 in Tokyo
+const morning = () => new Date("2025-06-13T22:05:00Z");
+
+function setup() {
+  const db = createDatabase(":memory:");
+  const subscriptions = createSubscriptionsRepository(db);
+  const sentAlerts = createSentAlertsRepository(db);
+  const pushes: { userId: string; text: string }[] = [];
+
+  // The forecast names the place differently from the saved city
+  const alertNotifier = createAlertNotifier({
+    subscriptions,
+    sentAlerts,
+    getForecast: async () => ok({ location: "Tokyo", days: [stormyDay] }),
+    push: async (userId, text) => {
+      pushes.push({ userId, text });
+      return ok(undefined);
+    },
+  });
+
+  const briefingScheduler = createBriefingScheduler({
+    subscriptions,
+    sentAlerts,
+    runBriefing: async () =>
+      ok({
+        plan: tokyoPlan,
+        activities: "",
+        alerts: [
+          {
+            kind: "heavy-rain",
+            severity: "warning",
+            date: stormyDay.date,
+            message: "Heavy rain expected",
+          },
+        ],
+      }),
+    push: async () => ok(undefined),
+    now: morning,
+  });
+
+  const subscribe = () =>
+    subscriptions.create({
+      userId: "Usubscriber",
+      city: "Tokyo, Japan",
+      hour: 7,
+      minute: 0,
+      timezone: DEFAULT_TIMEZONE,
+      lastSentDate: null,
+    });
+
+  return { alertNotifier, briefingScheduler, subscribe, pushes };
+}
+
+describe("createAlertNotifier", () => {
+  it("sends each alert once however often it runs", async () => {
+    const { alertNotifier, subscribe, pushes } = setup();
+    await subscribe();
+
+    const first = unwrap(await alertNotifier.checkAlerts());
+    const second = unwrap(await alertNotifier.checkAlerts());
+
+    expect(first.notified).toBe(1);
+    expect(second.notified).toBe(0);
+    expect(pushes).toHaveLength(1);
+    expect(pushes[0].text).toContain("Tokyo");
+  });
+
+  it("skips alerts the morning briefing already carried", async () => {
+    const { alertNotifier, briefingScheduler, subscribe, pushes } = setup();
+    await subscribe();
+
+    const briefings = unwrap(await briefingScheduler.runDue());
+    const alerts = unwrap(await alertNotifier.checkAlerts());
+
+    expect(briefings.sent).toBe(1);
+    expect(alerts.notified).toBe(0);
+    expect(pushes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  AlertForecastDay,
+  AlertThresholds,
+  WeatherAlert,
+  alertKey,
+  defaultAlertThresholds,
+  detectAlerts,
+  formatAlerts,
+} from "../domain/alerts.js";
+import { SentAlertsRepository } from "../repositories/alerts.js";
+import { SubscriptionsRepository } from "../repositories/subscriptions.js";
+import {
+  AppError,
+  Result,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+
+export type AlertNotifierDeps = {
+  subscriptions: SubscriptionsRepository;
+  sentAlerts: SentAlertsRepository;
+  getForecast: (
+    city: string,
+    days: number
+  ) => Promise<
+    Result<{ location: string; days: AlertForecastDay[] }, AppError>
+  >;
+  push: (userId: string, text: string) => Promise<Result<void, AppError>>;
+  thresholds?: AlertThresholds;
+  forecastDays?: number;
+};
+
+export type AlertRunSummary = {
+  locations: number;
+  notified: number;
+  failed: { city: string; userId?: string; error: AppError }[];
+};
+
+// Checks subscribed locations for severe weather and pushes new alerts
+export function createAlertNotifier(deps: AlertNotifierDeps) {
+  const thresholds = deps.thresholds ?? defaultAlertThresholds;
+  const forecastDays = deps.forecastDays ?? 2;
+
+  // Keyed by the subscription's city, like the alerts a briefing carries,
+  // so either path only tells a user about an alert once
+  const unsentAlerts = async (
+    userId: string,
+    city: string,
+    alerts: WeatherAlert[]
+  ): Promise<Result<WeatherAlert[], AppError>> => {
+    const unsent: WeatherAlert[] = [];
+    for (const alert of alerts) {
+      const sentResult = await deps.sentAlerts.isSent(
+        userId,
+        alertKey(city, alert)
+      );
+      if (isErr(sentResult)) {
+        return sentResult;
+      }
+      if (!unwrap(sentResult)) {
+        unsent.push(alert);
+      }
+    }
+    return ok(unsent);
+  };
+
+  const notifyUser = async (
+    userId: string,
+    city: string,
+    location: string,
+    alerts: WeatherAlert[]
+  ): Promise<Result<boolean, AppError>> => {
+    const unsentResult = await unsentAlerts(userId, city, alerts);
+    if (isErr(unsentResult)) {
+      return unsentResult;
+    }
+
+    const unsent = unwrap(unsentResult);
+    if (unsent.length === 0) {
+      return ok(false);
+    }
+
+    const pushResult = await deps.push(userId, formatAlerts(location, unsent));
+    if (isErr(pushResult)) {
+      return pushResult;
+    }
+
+    // Only remember alerts that actually reached the user
+    for (const alert of unsent) {
+      const markResult = await deps.sentAlerts.markSent(
+        userId,
+        alertKey(city, alert)
+      );
+      if (isErr(markResult)) {
+        return markResult;
+      }
+    }
+
+    return ok(true);
+  };
+
+  const checkAlerts = async (): Promise<Result<AlertRunSummary, AppError>> => {
+    const subscriptionsResult = await deps.subscriptions.listAll();
+    if (isErr(subscriptionsResult)) {
+      return subscriptionsResult;
+    }
+
+    // Fetch each location once, however many users follow it
+    const usersByCity = new Map<string, Set<string>>();
+    for (const subscription of unwrap(subscriptionsResult)) {
+      const users = usersByCity.get(subscription.city) ?? new Set<string>();
+      users.add(subscription.userId);
+      usersByCity.set(subscription.city, users);
+    }
+
+    const summary: AlertRunSummary = {
+      locations: usersByCity.size,
+      notified: 0,
+      failed: [],
+    };
+
+    for (const [city, userIds] of usersByCity) {
+      const forecastResult = await deps.getForecast(city, forecastDays);
+      if (isErr(forecastResult)) {
+        summary.failed.push({ city, error: unwrapErr(forecastResult) });
+        continue;
+      }
+
+      const forecast = unwrap(forecastResult);
+      const alerts = detectAlerts(forecast.days, thresholds);
+      if (alerts.length === 0) {
+        continue;
+      }
+
+      for (const userId of userIds) {
+        const notifyResult = await notifyUser(
+          userId,
+          city,
+          forecast.location,
+          alerts
+        );
+        if (isErr(notifyResult)) {
+          summary.failed.push({ city, userId, error: unwrapErr(notifyResult) });
+        } else if (unwrap(notifyResult)) {
+          summary.notified += 1;
+        }
+      }
+    }
+
+    return ok(summary);
+  };
+
+  return { checkAlerts };
+}
+
+export type AlertNotifier = ReturnType<typeof createAlertNotifier>;
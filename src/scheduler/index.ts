@@ -0,0 +1,134 @@
+import { alertKey } from "../domain/alerts.js";
+import { Subscription, isDue, localTime } from "../domain/subscriptions.js";
+import { logger } from "../infrastructure/logger.js";
+import { WeatherReply } from "../line/messages.js";
+import { SentAlertsRepository } from "../repositories/alerts.js";
+import { SubscriptionsRepository } from "../repositories/subscriptions.js";
+import {
+  AppError,
+  Result,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+
+export type BriefingDeps = {
+  subscriptions: SubscriptionsRepository;
+  sentAlerts: SentAlertsRepository;
+  runBriefing: (city: string) => Promise<Result<WeatherReply, AppError>>;
+  push: (
+    subscription: Subscription,
+    reply: WeatherReply
+  ) => Promise<Result<void, AppError>>;
+  now?: () => Date;
+};
+
+export type BriefingRunSummary = {
+  due: number;
+  sent: number;
+  failed: { id: number; error: AppError }[];
+};
+
+// Runs the weather workflow for every due subscription and pushes the result.
+// Triggered over HTTP (e.g. by Cloud Scheduler) so the service can scale to zero.
+export function createBriefingScheduler(deps: BriefingDeps) {
+  const now = deps.now ?? (() => new Date());
+
+  const deliverBriefing = async (
+    subscription: Subscription
+  ): Promise<Result<void, AppError>> => {
+    const replyResult = await deps.runBriefing(subscription.city);
+    if (isErr(replyResult)) {
+      return replyResult;
+    }
+    const reply = unwrap(replyResult);
+    const pushResult = await deps.push(subscription, reply);
+    if (isErr(pushResult)) {
+      return pushResult;
+    }
+
+    // The briefing already carried these alerts, so the alert check
+    // shouldn't push them again
+    for (const alert of reply.alerts ?? []) {
+      const markResult = await deps.sentAlerts.markSent(
+        subscription.userId,
+        alertKey(subscription.city, alert)
+      );
+      if (isErr(markResult)) {
+        logger.error("Failed to record sent alert", {
+          err: unwrapErr(markResult),
+        });
+      }
+    }
+    return ok(undefined);
+  };
+
+  // Claimed before sending, so overlapping runs can't push the same
+  // briefing twice. Resolves false when another run got there first.
+  const sendBriefing = async (
+    subscription: Subscription,
+    sentDate: string
+  ): Promise<Result<boolean, AppError>> => {
+    const claimResult = await deps.subscriptions.claim(
+      subscription.id,
+      sentDate
+    );
+    if (isErr(claimResult) || !unwrap(claimResult)) {
+      return claimResult;
+    }
+
+    const deliverResult = await deliverBriefing(subscription);
+    if (isErr(deliverResult)) {
+      const releaseResult = await deps.subscriptions.release(
+        subscription.id,
+        sentDate,
+        subscription.lastSentDate
+      );
+      if (isErr(releaseResult)) {
+        logger.error("Failed to release briefing claim", {
+          subscriptionId: subscription.id,
+          err: unwrapErr(releaseResult),
+        });
+      }
+      return deliverResult;
+    }
+
+    return ok(true);
+  };
+
+  const runDue = async (): Promise<Result<BriefingRunSummary, AppError>> => {
+    const currentTime = now();
+    const subscriptionsResult = await deps.subscriptions.listAll();
+    if (isErr(subscriptionsResult)) {
+      return subscriptionsResult;
+    }
+
+    const due = unwrap(subscriptionsResult).filter((subscription) =>
+      isDue(subscription, currentTime)
+    );
+    const summary: BriefingRunSummary = {
+      due: due.length,
+      sent: 0,
+      failed: [],
+    };
+
+    // One at a time to keep LLM load predictable
+    for (const subscription of due) {
+      const { date } = localTime(currentTime, subscription.timezone);
+      const result = await sendBriefing(subscription, date);
+
+      if (isErr(result)) {
+        summary.failed.push({ id: subscription.id, error: unwrapErr(result) });
+      } else if (unwrap(result)) {
+        summary.sent += 1;
+      }
+    }
+
+    return ok(summary);
+  };
+
+  return { runDue };
+}
+
+export type BriefingScheduler = ReturnType<typeof createBriefingScheduler>;
@@ -1,349 +1,197 @@
+import { Client } from "@line/bot-sdk";
+import { createApp } from "./app.js";
+import { loadApiKeys } from "./infrastructure/api-keys.js";
+import { cache, cacheStore } from "./infrastructure/cache.js";
+import { config, loadConfig, redactConfig } from "./infrastructure/config.js";
+import { db } from "./infrastructure/database.js";
+import { logger } from "./infrastructure/logger.js";
+import {
+  DEFAULT_FORECAST_BASE_URL,
+  DEFAULT_GEOCODING_BASE_URL,
+  openMeteo,
+} from "./infrastructure/open-meteo.js";
 import {
-  MessageAPIResponseBase,
-  MiddlewareConfig,
-  WebhookEvent,
-  middleware,
-} from "@line/bot-sdk";
-import cors from "cors";
-import dotenv from "dotenv";
-import express from "express";
+  createTokenBucketLimiter,
+  llmLimiter,
+} from "./infrastructure/rate-limit.js";
+import { setupTracing } from "./infrastructure/telemetry.js";
+import { createLineEventHandler, loadPreferences } from "./line/handler.js";
+import { renderWeatherMessages } from "./line/messages.js";
 import { mastra } from "./mastra/index.js";
+import { extractIntent } from "./mastra/intents/index.js";
+import {
+  hasConversation,
+  recentMessages,
+  resetConversation,
+} from "./mastra/memory/index.js";
+import { checkModelCredentials } from "./mastra/models/index.js";
+import { getForecast, locatePlace } from "./mastra/tools/index.js";
+import { createWeatherWorkflowRuns } from "./mastra/workflows/runs.js";
+import { createSentAlertsRepository } from "./repositories/alerts.js";
+import { createPreferencesRepository } from "./repositories/preferences.js";
+import { createSubscriptionsRepository } from "./repositories/subscriptions.js";
+import { createWorkflowRunsRepository } from "./repositories/workflow-runs.js";
+import { createAlertNotifier } from "./scheduler/alerts.js";
+import { createBriefingScheduler } from "./scheduler/index.js";
+import { createHealthChecks } from "./services/health.js";
+import { createWeatherService } from "./services/weather.js";
 import {
   AppError,
-  Result,
-  ValidationError,
-  err,
   errors,
+  fromPromise,
   isErr,
-  ok,
   unwrap,
   unwrapErr,
 } from "./utils/result.js";
 
-// Load environment variables
-dotenv.config();
+const port = config.port;
 
-const app = express();
-const port = process.env.PORT || 8080;
+logger.info("Config loaded", { config: redactConfig(config) });
 
-// LINE Bot configuration
-const channelSecret = process.env.LINE_CHANNEL_SECRET || "";
-console.log("Channel Secret length:", channelSecret.length);
-console.log("Channel Secret first 4 chars:", channelSecret.substring(0, 4));
+const tracerProvider = setupTracing(config.telemetry);
 
-const middlewareConfig: MiddlewareConfig = {
-  channelSecret: channelSecret,
-};
-
-// Middleware
-app.use(cors());
-
-// Health check endpoint
-app.get("/", (req, res) => {
-  res.json({ status: "ok", message: "Mastra Weather Agent API" });
-});
-
-// Apply JSON middleware for other routes (not LINE webhook)
-app.use(express.json());
-
-// Type for weather request validation
-type WeatherRequest = {
-  city: string;
-};
-
-// Validate weather request
-function validateWeatherRequest(
-  query: any
-): Result<WeatherRequest, ValidationError> {
-  if (!query.city || typeof query.city !== "string") {
-    return err(errors.validation("City parameter is required", "city"));
-  }
-  return ok({ city: query.city });
+// Optional API key auth for the public endpoints; the LINE webhook has its
+// own signature check
+const apiKeysResult = loadApiKeys();
+if (isErr(apiKeysResult)) {
+  logger.error("Invalid API key configuration", {
+    reason: unwrapErr(apiKeysResult).message,
+  });
+  process.exit(1);
 }
-
-// Get weather data using Mastra agent and tools
-async function getWeatherData(city: string): Promise<Result<any, AppError>> {
-  try {
-    console.log("Getting weather for city:", city);
-
-    // Get the weather agent from Mastra
-    const agent = mastra.getAgent("weatherAgent");
-    if (!agent) {
-      return err(errors.infrastructure("Weather agent not found"));
-    }
-
-    // The agent already has the weather tool configured, so just use it
-    const response = await agent.generate([
-      {
-        role: "user",
-        content: `Get the current weather for ${city} and suggest appropriate activities based on the weather conditions.`,
-      },
-    ]);
-
-    // Check if we got a response
-    if (!response || !response.text) {
-      return err(errors.weatherAPI("No weather data received from agent", 500));
-    }
-
-    return ok({ activities: response.text });
-  } catch (error) {
-    console.error("Weather agent error:", error);
-    return err(errors.infrastructure("Failed to get weather data", error));
-  }
+const apiKeys = unwrap(apiKeysResult);
+if (apiKeys.length === 0) {
+  logger.warn(
+    "API key auth is off: set API_KEYS or API_KEYS_FILE to enable it"
+  );
 }
 
-// Weather endpoint
-app.get("/api/weather", async (req, res) => {
-  // Validate request
-  const validationResult = validateWeatherRequest(req.query);
-
-  if (isErr(validationResult)) {
-    const error = unwrapErr(validationResult);
-    res.status(400).json({
-      error: error.message,
-      field: error.kind === "validation" ? error.field : undefined,
-    });
-    return;
-  }
-
-  // Get weather data
-  const weatherResult = await getWeatherData(unwrap(validationResult).city);
-
-  if (isErr(weatherResult)) {
-    const error = unwrapErr(weatherResult);
-    const status =
-      error.kind === "weather-api" && error.statusCode ? error.statusCode : 500;
-    res.status(status).json({
-      error: error.message,
-      type: error.kind,
-    });
-    return;
-  }
-
-  res.json(unwrap(weatherResult));
+// Initialize LINE client
+const client = new Client({
+  channelAccessToken: config.line.channelAccessToken,
+  channelSecret: config.line.channelSecret,
 });
 
-// Type for suggest request
-type SuggestRequest = {
-  city: string;
-};
-
-// Validate suggest request
-function validateSuggestRequest(
-  body: any
-): Result<SuggestRequest, ValidationError> {
-  if (!body || typeof body !== "object") {
-    return err(errors.validation("Request body is required"));
-  }
-
-  if (!body.city || typeof body.city !== "string") {
-    return err(errors.validation("City is required", "city"));
-  }
-
-  return ok({ city: body.city });
-}
+const weather = createWeatherService({
+  agent: mastra.getAgent("weatherAgent"),
+  openMeteo,
+  tools: { locatePlace, getForecast },
+  cache,
+  llmLimiter,
+});
 
-// Weather suggest endpoint
-app.post("/api/weather/suggest", async (req, res) => {
-  // Validate request
-  const validationResult = validateSuggestRequest(req.body);
+const weatherWorkflowRuns = createWeatherWorkflowRuns({
+  runs: createWorkflowRunsRepository(db),
+  workflow: mastra.getWorkflow("weatherWorkflow"),
+});
 
-  if (isErr(validationResult)) {
-    const error = unwrapErr(validationResult);
-    res.status(400).json({
-      error: error.message,
-      field: error.kind === "validation" ? error.field : undefined,
+// Runs left over from a previous process will never finish
+weatherWorkflowRuns.failInterrupted().then((result) => {
+  if (isErr(result)) {
+    logger.error("Failed to clean up workflow runs", {
+      err: unwrapErr(result),
     });
-    return;
-  }
-
-  // Get weather with suggestions
-  const weatherResult = await getWeatherData(unwrap(validationResult).city);
-
-  if (isErr(weatherResult)) {
-    const error = unwrapErr(weatherResult);
-    const status =
-      error.kind === "weather-api" && error.statusCode ? error.statusCode : 500;
-    res.status(status).json({
-      error: error.message,
-      type: error.kind,
+  } else if (unwrap(result) > 0) {
+    logger.info("Marked interrupted workflow runs as failed", {
+      count: unwrap(result),
     });
-    return;
   }
-
-  res.json({
-    ...unwrap(weatherResult),
-    timestamp: new Date().toISOString(),
-  });
 });
 
-// Start server
-const server = app.listen(port as number, () => {
-  console.log(`Server is running on port ${port}`);
-  console.log(`Health check: http://localhost:${port}/`);
-  console.log(`Weather API: http://localhost:${port}/api/weather?city=Tokyo`);
-  console.log(`LINE webhook: http://localhost:${port}/api/line/webhook`);
-  console.log(`LINE_CHANNEL_SECRET exists:`, !!process.env.LINE_CHANNEL_SECRET);
-  console.log(
-    `LINE_CHANNEL_ACCESS_TOKEN exists:`,
-    !!process.env.LINE_CHANNEL_ACCESS_TOKEN
-  );
+const subscriptionsRepository = createSubscriptionsRepository(db);
+const sentAlertsRepository = createSentAlertsRepository(db);
+const preferencesRepository = createPreferencesRepository(db);
+
+const briefingScheduler = createBriefingScheduler({
+  subscriptions: subscriptionsRepository,
+  sentAlerts: sentAlertsRepository,
+  runBriefing: (city) => weatherWorkflowRuns.run({ city, days: 1 }),
+  push: async (subscription, reply) => {
+    const preferences = await loadPreferences(
+      preferencesRepository,
+      subscription.userId
+    );
+    return fromPromise(
+      client
+        .pushMessage(
+          subscription.userId,
+          renderWeatherMessages(reply, preferences)
+        )
+        .then(() => undefined),
+      (error): AppError =>
+        errors.infrastructure("Failed to push LINE message", error)
+    );
+  },
 });
 
-// Health check for LINE webhook
-app.get("/api/line/webhook", (req, res) => {
-  res.json({
-    status: "ok",
-    secretExists: !!process.env.LINE_CHANNEL_SECRET,
-    secretLength: (process.env.LINE_CHANNEL_SECRET || "").length,
-  });
+const alertNotifier = createAlertNotifier({
+  subscriptions: subscriptionsRepository,
+  sentAlerts: sentAlertsRepository,
+  getForecast,
+  push: (userId, text) =>
+    fromPromise(
+      client.pushMessage(userId, { type: "text", text }).then(() => undefined),
+      (error): AppError =>
+        errors.infrastructure("Failed to push LINE message", error)
+    ),
 });
 
-// LINE webhook endpoint - Use middleware correctly
-app.post(
-  "/api/line/webhook",
-  express.raw({ type: "application/json" }),
-  (req, res, next) => {
-    // Convert raw body to string for middleware
-    req.body = req.body.toString();
-    next();
-  },
-  middleware(middlewareConfig),
-  async (req, res) => {
-    try {
-      const events: WebhookEvent[] = req.body.events;
-
-      if (!events || events.length === 0) {
-        res.status(200).json({ status: "ok" });
-        return;
-      }
-
-      // Process all events asynchronously
-      await Promise.all(events.map(handleEvent));
-
-      res.status(200).json({ status: "ok" });
-    } catch (error) {
-      console.error("Webhook error:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  }
-);
-
-// Parse message for city name
-function parseMessageForCity(text: string): Result<string, ValidationError> {
-  const normalizedText = text.toLowerCase().trim();
-
-  // Check for weather keywords
-  const weatherKeywords = [
-    "天気",
-    "weather",
-    "forecast",
-    "気温",
-    "temperature",
-  ];
-  const hasWeatherKeyword = weatherKeywords.some((keyword) =>
-    normalizedText.includes(keyword)
-  );
-
-  if (!hasWeatherKeyword) {
-    return err(
-      errors.validation(
-        "Please include a weather-related keyword in your message"
-      )
-    );
-  }
-
-  // Extract city name (simple pattern matching)
-  const patterns = [
-    /(.+?)の天気/,
-    /weather in (.+)/i,
-    /forecast for (.+)/i,
-    /(.+)の気温/,
-    /temperature in (.+)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match && match[1]) {
-      return ok(match[1].trim());
-    }
-  }
-
-  // Default cities if just keywords are mentioned
-  if (normalizedText === "天気" || normalizedText === "weather") {
-    return ok("Tokyo");
-  }
-
-  return err(
-    errors.validation(
-      "Could not understand the city name. Try '東京の天気' or 'weather in Tokyo'"
-    )
-  );
-}
-
-// Event handler
-async function handleEvent(
-  event: WebhookEvent
-): Promise<MessageAPIResponseBase | undefined> {
-  // Handle only text messages
-  if (event.type !== "message" || event.message.type !== "text") {
-    return;
-  }
-
-  const { replyToken } = event;
-  const { text } = event.message;
-
-  try {
-    // Parse message for city
-    const cityResult = parseMessageForCity(text);
-
-    if (isErr(cityResult)) {
-      return client.replyMessage(replyToken, {
-        type: "text",
-        text: unwrapErr(cityResult).message,
-      });
-    }
-
-    // Get weather data
-    const weatherResult = await getWeatherData(unwrap(cityResult));
-
-    if (isErr(weatherResult)) {
-      return client.replyMessage(replyToken, {
-        type: "text",
-        text: `Sorry, I couldn't get weather information: ${unwrapErr(weatherResult).message}`,
-      });
-    }
-
-    // Format response
-    const data = unwrap(weatherResult);
-    const weatherData =
-      data.activities || "Weather information is currently unavailable.";
+// Clients are limited per IP and LINE users per user id
+const handleLineEvent = createLineEventHandler({
+  client,
+  weather,
+  extractIntent,
+  conversations: { hasConversation, recentMessages, resetConversation },
+  preferences: preferencesRepository,
+  subscriptions: subscriptionsRepository,
+  rateLimiter: createTokenBucketLimiter(config.rateLimits.line),
+});
 
-    return client.replyMessage(replyToken, {
-      type: "text",
-      text: weatherData,
-    });
-  } catch (error) {
-    console.error("Error handling event:", error);
-    return client.replyMessage(replyToken, {
-      type: "text",
-      text: "Sorry, an error occurred while processing your request.",
-    });
-  }
-}
+const health = createHealthChecks({
+  checkConfig: () => loadConfig(process.env),
+  checkModels: () => checkModelCredentials(config.models, config.providers),
+  openMeteoUrls: [
+    config.openMeteo.geocodingBaseUrl ?? DEFAULT_GEOCODING_BASE_URL,
+    config.openMeteo.forecastBaseUrl ?? DEFAULT_FORECAST_BASE_URL,
+  ],
+  db,
+  cacheStore,
+});
 
-// Initialize LINE client
-import { Client } from "@line/bot-sdk";
+const app = createApp({
+  weather,
+  workflowRuns: weatherWorkflowRuns,
+  briefingScheduler,
+  alertNotifier,
+  health,
+  handleLineEvent,
+  lineChannelSecret: config.line.channelSecret,
+  apiKeys,
+  httpRateLimiter: createTokenBucketLimiter(config.rateLimits.http),
+  schedulerSecret: config.schedulerSecret,
+  trustProxy: config.trustProxy,
+});
 
-const client = new Client({
-  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
-  channelSecret: process.env.LINE_CHANNEL_SECRET || "",
+// Start server
+const server = app.listen(port, () => {
+  logger.info(`Server is running on port ${port}`, {
+    healthCheck: `http://localhost:${port}/healthz`,
+    readinessCheck: `http://localhost:${port}/readyz`,
+    weatherApi: `http://localhost:${port}/api/weather?city=Tokyo`,
+    weatherStream: `http://localhost:${port}/api/weather/stream?city=Tokyo`,
+    lineWebhook: `http://localhost:${port}/api/line/webhook`,
+    metrics: `http://localhost:${port}/metrics`,
+  });
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
-  console.log("SIGTERM signal received: closing HTTP server");
+  logger.info("SIGTERM signal received: closing HTTP server");
   server.close(() => {
-    console.log("HTTP server closed");
+    logger.info("HTTP server closed");
+  });
+  // Batched spans would be lost when Cloud Run stops the instance
+  tracerProvider?.shutdown().catch((error) => {
+    logger.error("Failed to flush traces", { err: error });
   });
 });
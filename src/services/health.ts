@@ -0,0 +1,157 @@
+import { Client } from "@libsql/client";
+import { CacheStore } from "../infrastructure/cache.js";
+import { isTimeout } from "../infrastructure/resilient-fetch.js";
+import {
+  AppError,
+  Result,
+  all,
+  chainResult,
+  err,
+  errors,
+  fromPromise,
+  isErr,
+  ok,
+  unwrap,
+  unwrapErr,
+} from "../utils/result.js";
+
+export type Dependency = "config" | "openMeteo" | "llm" | "storage" | "cache";
+
+export type DependencyStatus = {
+  status: "ok" | "fail";
+  durationMs: number;
+  // Why the check failed
+  detail?: string;
+};
+
+export type ReadinessReport = {
+  status: "ready" | "unavailable";
+  checks: Record<Dependency, DependencyStatus>;
+};
+
+export type HealthChecksDeps = {
+  checkConfig: () => Result<unknown, AppError>;
+  checkModels: () => Result<unknown, AppError>;
+  openMeteoUrls: string[];
+  db: Client;
+  cacheStore: CacheStore;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  // Probes are reused for a while so frequent readiness checks don't
+  // hammer Open-Meteo
+  reachabilityTtlMs?: number;
+  now?: () => number;
+};
+
+function toVoid(): void {}
+
+async function timed(
+  check: () => Promise<Result<unknown, AppError>> | Result<unknown, AppError>
+): Promise<DependencyStatus> {
+  const started = performance.now();
+  const result = await check();
+  const durationMs = Math.round(performance.now() - started);
+
+  return isErr(result)
+    ? { status: "fail", durationMs, detail: unwrapErr(result).message }
+    : { status: "ok", durationMs };
+}
+
+export function createHealthChecks(deps: HealthChecksDeps) {
+  const fetchFn = deps.fetch ?? fetch;
+  const timeoutMs = deps.timeoutMs ?? 2000;
+  const reachabilityTtlMs = deps.reachabilityTtlMs ?? 30 * 1000;
+  const now = deps.now ?? Date.now;
+
+  // Any answer short of a server error means the host is up; the base URLs
+  // themselves answer 404
+  const probe = async (url: string): Promise<Result<void, AppError>> => {
+    const responseResult = await fromPromise<Response, AppError>(
+      fetchFn(url, { method: "HEAD", signal: AbortSignal.timeout(timeoutMs) }),
+      (error): AppError =>
+        isTimeout(error)
+          ? errors.upstreamTimeout(url)
+          : errors.infrastructure(`Failed to reach ${url}`, error)
+    );
+    if (isErr(responseResult)) {
+      return responseResult;
+    }
+
+    const { status } = unwrap(responseResult);
+    return status >= 500
+      ? err(errors.weatherAPI(`${url} answered with status ${status}`, status))
+      : ok(undefined);
+  };
+
+  let reachability:
+    | { checkedAt: number; result: Promise<Result<void, AppError>> }
+    | undefined;
+
+  const checkOpenMeteo = () => {
+    if (!reachability || now() - reachability.checkedAt >= reachabilityTtlMs) {
+      reachability = {
+        checkedAt: now(),
+        result: chainResult(all(deps.openMeteoUrls.map(probe)))
+          .map(toVoid)
+          .toResult(),
+      };
+    }
+    return reachability.result;
+  };
+
+  // libSQL calls take no abort signal, so a hung connection is raced
+  // against the same timeout as the probes
+  const withTimeout = async <T>(
+    service: string,
+    check: Promise<Result<T, AppError>>
+  ): Promise<Result<T, AppError>> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<Result<T, AppError>>((resolve) => {
+      timer = setTimeout(
+        () => resolve(err(errors.upstreamTimeout(service))),
+        timeoutMs
+      );
+    });
+    try {
+      return await Promise.race([check, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const checkStorage = () =>
+    withTimeout(
+      "database",
+      fromPromise(
+        deps.db.execute("SELECT 1"),
+        (error): AppError =>
+          errors.infrastructure("Failed to query the database", error)
+      )
+    );
+
+  const checkCache = () =>
+    withTimeout("cache", deps.cacheStore.get("readiness-check"));
+
+  // Every dependency at once, so one slow check doesn't hide the others
+  const readiness = async (): Promise<ReadinessReport> => {
+    const [config, openMeteo, llm, storage, cache] = await Promise.all([
+      timed(deps.checkConfig),
+      timed(checkOpenMeteo),
+      timed(deps.checkModels),
+      timed(checkStorage),
+      timed(checkCache),
+    ]);
+    const checks = { config, openMeteo, llm, storage, cache };
+
+    return {
+      status: Object.values(checks).every((check) => check.status === "ok")
+        ? "ready"
+        : "unavailable",
+      checks,
+    };
+  };
+
+  return { readiness };
+}
+
+export type HealthChecks = ReturnType<typeof createHealthChecks>;
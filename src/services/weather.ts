@@ -0,0 +1,353 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import {
+  ActivityPlan,
+  activityPlanSchema,
+  renderActivityPlan,
+} from "../domain/activity-plan.js";
+import { WeatherAlert, detectAlerts } from "../domain/alerts.js";
+import {
+  LocationCandidate,
+  LocationContext,
+  PlaceQuery,
+  describeLocation,
+  describePlaceQuery,
+} from "../domain/locations.js";
+import { UserPreferences } from "../domain/preferences.js";
+import { Cache, MINUTE } from "../infrastructure/cache.js";
+import {
+  Logger,
+  RequestContext,
+  requestLogger,
+  setRequestContext,
+} from "../infrastructure/logger.js";
+import { OpenMeteoClient } from "../infrastructure/open-meteo.js";
+import { ConcurrencyLimiter } from "../infrastructure/rate-limit.js";
+import { withSpan } from "../infrastructure/telemetry.js";
+import { WeatherAgent } from "../mastra/agents/index.js";
+import { Conversation } from "../mastra/memory/index.js";
+import { WeatherRuntimeContext, WeatherTools } from "../mastra/tools/index.js";
+import {
+  AppError,
+  Result,
+  chain,
+  chainResult,
+  err,
+  errors,
+  fromPromise,
+  fromThrowable,
+  match,
+  ok,
+} from "../utils/result.js";
+
+// Structured plan plus its text rendering
+export type AgentReply = {
+  plan: ActivityPlan;
+  activities: string;
+};
+
+// Agent reply plus severe weather alerts for the location
+export type WeatherSuggestion = AgentReply & {
+  alerts: WeatherAlert[];
+};
+
+// A resolved city name and, when the geocoder knows it, its timezone
+export type LocatedCity = {
+  name: string;
+  timezone?: string;
+};
+
+// Progress reported while the agent streams its answer
+export type AgentStreamEvent =
+  | { event: "tool-call"; data: { toolName: string; args: unknown } }
+  | { event: "tool-result"; data: { toolName: string; result: unknown } }
+  | { event: "text-delta"; data: { text: string } };
+
+export type WeatherServiceDeps = {
+  agent: WeatherAgent;
+  openMeteo: Pick<OpenMeteoClient, "geocode">;
+  tools: Pick<WeatherTools, "locatePlace" | "getForecast">;
+  cache: Cache;
+  llmLimiter: ConcurrencyLimiter;
+};
+
+const SUGGESTION_CACHE_TTL = 10 * MINUTE;
+
+export function weatherPrompt(place: PlaceQuery): string {
+  return `Get the current weather for ${describePlaceQuery(place)} and suggest appropriate activities based on the weather conditions.`;
+}
+
+// Nearby points share a cache entry, like the forecast cache
+function placeCacheKey(place: PlaceQuery): string {
+  if (place.kind === "name") {
+    return place.name.toLowerCase();
+  }
+  const { latitude, longitude } = place.coordinates;
+  return `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+}
+
+// The stream's final text is the JSON plan
+const parsePlan = fromThrowable(
+  (text: string): unknown => JSON.parse(text),
+  (error): AppError => errors.llm("Weather agent returned invalid JSON", error)
+);
+
+function validatePlan(json: unknown): Result<AgentReply, AppError> {
+  const planResult = activityPlanSchema.safeParse(json);
+  if (!planResult.success) {
+    return err(errors.llmRefused("Weather agent returned no plan"));
+  }
+  const plan = planResult.data;
+  return ok({ plan, activities: renderActivityPlan(plan) });
+}
+
+function nameOf(located: { name: string }): string {
+  return located.name;
+}
+
+function withAlerts(alerts: WeatherAlert[]) {
+  return (reply: AgentReply): WeatherSuggestion => ({ ...reply, alerts });
+}
+
+// The agent can finish without producing the structured output
+function toAgentReply(response: {
+  object?: ActivityPlan | null;
+}): Result<AgentReply, AppError> {
+  if (!response.object) {
+    return err(errors.llmRefused("Weather agent returned no plan"));
+  }
+  const plan = response.object;
+  return ok({ plan, activities: renderActivityPlan(plan) });
+}
+
+function withName(place: PlaceQuery) {
+  return (name: string): PlaceQuery => ({ ...place, name });
+}
+
+function toLocatedCity(candidate: LocationCandidate): LocatedCity {
+  return { name: describeLocation(candidate), timezone: candidate.timezone };
+}
+
+function skipAlerts(log: Logger) {
+  return (error: AppError): WeatherAlert[] => {
+    log.warn("Failed to check weather alerts", { err: error });
+    return [];
+  };
+}
+
+// Agent spans carry the correlation id so a trace can be found from a
+// client's error report
+function agentSpanAttributes(request: RequestContext) {
+  return {
+    "gen_ai.agent.name": "weather-agent",
+    "app.correlation_id": request.correlationId,
+  };
+}
+
+// Weather lookups and agent calls shared by the HTTP routes and LINE
+export function createWeatherService(deps: WeatherServiceDeps) {
+  // Alerts for today and tomorrow; a failed lookup shouldn't block the reply
+  const loadAlerts = async (
+    location: string | PlaceQuery,
+    request: RequestContext
+  ): Promise<WeatherAlert[]> => {
+    const log = requestLogger(request);
+    const forecastResult = await deps.tools.getForecast(location, 2, {}, log);
+    return match(forecastResult, {
+      ok: (forecast) => detectAlerts(forecast.days),
+      err: skipAlerts(log),
+    });
+  };
+
+  // Resolve the city up front so ambiguous names get a list of options
+  // instead of the agent quietly picking one
+  const resolveCity = async (
+    city: string,
+    context: LocationContext = {}
+  ): Promise<Result<string, AppError>> =>
+    chainResult(deps.openMeteo.geocode(city, context))
+      .map(describeLocation)
+      .toResult();
+
+  // The same, plus the place's timezone for scheduling
+  const locateCity = async (
+    city: string,
+    context: LocationContext = {}
+  ): Promise<Result<LocatedCity, AppError>> =>
+    chainResult(deps.openMeteo.geocode(city, context))
+      .map(toLocatedCity)
+      .toResult();
+
+  // Same for a request that may be a point: coordinates keep skipping
+  // geocoding but get a place name for display
+  const resolvePlace = async (
+    place: PlaceQuery,
+    request: RequestContext,
+    context: LocationContext = {}
+  ): Promise<Result<PlaceQuery, AppError>> => {
+    if (place.kind === "name") {
+      return chainResult(resolveCity(place.name, context))
+        .map(withName(place))
+        .toResult();
+    }
+
+    return chainResult(
+      deps.tools.locatePlace(place, context, requestLogger(request))
+    )
+      .map(nameOf)
+      .map(withName(place))
+      .toResult();
+  };
+
+  // Send a message to the weather agent, optionally within a memory thread
+  const askWeatherAgent = async (
+    content: string,
+    request: RequestContext,
+    conversation?: Conversation,
+    preferences?: UserPreferences
+  ): Promise<Result<AgentReply, AppError>> =>
+    withSpan("weather-agent generate", agentSpanAttributes(request), () => {
+      // The agent already has the weather tools configured, so just use them
+      const runtimeContext = new RuntimeContext<WeatherRuntimeContext>();
+      setRequestContext(runtimeContext, request);
+      if (preferences) {
+        runtimeContext.set("preferences", preferences);
+      }
+
+      return chainResult(
+        fromPromise(
+          deps.llmLimiter.run(() =>
+            deps.agent.generate([{ role: "user", content }], {
+              experimental_output: activityPlanSchema,
+              memory: conversation,
+              runtimeContext,
+            })
+          ),
+          (error): AppError => {
+            requestLogger(request).error("Weather agent failed", {
+              err: error,
+            });
+            return errors.llm("Failed to get weather data", error);
+          }
+        )
+      )
+        .andThen(toAgentReply)
+        .toResult();
+    });
+
+  // Stream the weather agent's progress, resolving to its structured plan
+  const streamWeatherAgent = async (
+    content: string,
+    request: RequestContext,
+    onEvent: (event: AgentStreamEvent) => void,
+    abortSignal: AbortSignal
+  ): Promise<Result<AgentReply, AppError>> => {
+    const runtimeContext = new RuntimeContext<WeatherRuntimeContext>();
+    setRequestContext(runtimeContext, request);
+
+    // The slot is held until the stream has been read to the end
+    return deps.llmLimiter.run(() =>
+      withSpan(
+        "weather-agent stream",
+        agentSpanAttributes(request),
+        async () => {
+          try {
+            const stream = await deps.agent.stream(
+              [{ role: "user", content }],
+              {
+                experimental_output: activityPlanSchema,
+                abortSignal,
+                runtimeContext,
+              }
+            );
+
+            for await (const part of stream.fullStream) {
+              switch (part.type) {
+                case "tool-call":
+                  onEvent({
+                    event: "tool-call",
+                    data: { toolName: part.toolName, args: part.args },
+                  });
+                  break;
+                case "tool-result":
+                  onEvent({
+                    event: "tool-result",
+                    data: { toolName: part.toolName, result: part.result },
+                  });
+                  break;
+                case "text-delta":
+                  onEvent({
+                    event: "text-delta",
+                    data: { text: part.textDelta },
+                  });
+                  break;
+                case "error":
+                  return err(
+                    errors.llm("Weather agent stream failed", part.error)
+                  );
+              }
+            }
+
+            return chain<string, AppError>(await stream.text)
+              .andThen(parsePlan)
+              .andThen(validatePlan)
+              .toResult();
+          } catch (error) {
+            return err(errors.llm("Failed to stream weather data", error));
+          }
+        }
+      )
+    );
+  };
+
+  const suggestActivities = async (
+    place: PlaceQuery,
+    request: RequestContext,
+    conversation?: Conversation
+  ): Promise<Result<WeatherSuggestion, AppError>> => {
+    const [replyResult, alerts] = await Promise.all([
+      askWeatherAgent(weatherPrompt(place), request, conversation),
+      loadAlerts(place, request),
+    ]);
+
+    return chainResult(replyResult).map(withAlerts(alerts)).toResult();
+  };
+
+  // Outside a conversation everyone asking about a place gets the same answer
+  const suggestFor =
+    (request: RequestContext, conversation?: Conversation) =>
+    (location: PlaceQuery): Promise<Result<WeatherSuggestion, AppError>> =>
+      conversation
+        ? suggestActivities(location, request, conversation)
+        : deps.cache.getOrLoad(
+            `suggestion:${placeCacheKey(location)}`,
+            SUGGESTION_CACHE_TTL,
+            () => suggestActivities(location, request)
+          );
+
+  // Get weather data using Mastra agent and tools
+  const getWeatherData = async (
+    place: PlaceQuery,
+    request: RequestContext,
+    conversation?: Conversation
+  ): Promise<Result<WeatherSuggestion, AppError>> => {
+    requestLogger(request).info("Getting weather", {
+      place: describePlaceQuery(place),
+    });
+
+    return chainResult(resolvePlace(place, request))
+      .asyncAndThen(suggestFor(request, conversation))
+      .toResult();
+  };
+
+  return {
+    loadAlerts,
+    resolveCity,
+    locateCity,
+    resolvePlace,
+    askWeatherAgent,
+    streamWeatherAgent,
+    getWeatherData,
+  };
+}
+
+export type WeatherService = ReturnType<typeof createWeatherService>;
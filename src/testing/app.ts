@@ -0,0 +1,183 @@
+import { Express } from "express";
+import { createApp } from "../app.js";
+import { ApiKey } from "../domain/api-keys.js";
+import {
+  createCache,
+  createMemoryCacheStore,
+} from "../infrastructure/cache.js";
+import { config, loadConfig } from "../infrastructure/config.js";
+import { createDatabase } from "../infrastructure/database.js";
+import {
+  DEFAULT_FORECAST_BASE_URL,
+  DEFAULT_GEOCODING_BASE_URL,
+  createOpenMeteoClient,
+} from "../infrastructure/open-meteo.js";
+import {
+  TokenBucketOptions,
+  createConcurrencyLimiter,
+  createTokenBucketLimiter,
+} from "../infrastructure/rate-limit.js";
+import { createResilientFetch } from "../infrastructure/resilient-fetch.js";
+import { createReverseGeocoder } from "../infrastructure/reverse-geocoding.js";
+import { createLineEventHandler } from "../line/handler.js";
+import { renderWeatherMessages } from "../line/messages.js";
+import { createWeatherAgent } from "../mastra/agents/index.js";
+import { createIntentExtractor } from "../mastra/intents/index.js";
+import { ConversationMessage } from "../mastra/memory/index.js";
+import {
+  checkModelCredentials,
+  withTelemetry,
+} from "../mastra/models/index.js";
+import { createWeatherTools } from "../mastra/tools/index.js";
+import { createWeatherWorkflow } from "../mastra/workflows/index.js";
+import { createWeatherWorkflowRuns } from "../mastra/workflows/runs.js";
+import { createSentAlertsRepository } from "../repositories/alerts.js";
+import { createPreferencesRepository } from "../repositories/preferences.js";
+import {
+  SubscriptionsRepository,
+  createSubscriptionsRepository,
+} from "../repositories/subscriptions.js";
+import { createWorkflowRunsRepository } from "../repositories/workflow-runs.js";
+import { createAlertNotifier } from "../scheduler/alerts.js";
+import { createBriefingScheduler } from "../scheduler/index.js";
+import { createHealthChecks } from "../services/health.js";
+import { createWeatherService } from "../services/weather.js";
+import { ok } from "../utils/result.js";
+import {
+  ScriptedModel,
+  ScriptedTurn,
+  createScriptedModel,
+} from "./fake-model.js";
+import { FakeLineClient, createFakeLineClient } from "./line.js";
+import { OpenMeteoStandIn, createOpenMeteoStandIn } from "./open-meteo.js";
+
+export const TEST_CHANNEL_SECRET = "test-channel-secret";
+export const TEST_SCHEDULER_SECRET = "test-scheduler-secret";
+
+export type TestAppOptions = {
+  // Scripted replies of the weather agent, the workflow planner and the
+  // LINE intent classifier
+  agentTurns?: ScriptedTurn[];
+  plannerTurns?: ScriptedTurn[];
+  intentTurns?: ScriptedTurn[];
+  apiKeys?: ApiKey[];
+  rateLimit?: TokenBucketOptions;
+  now?: () => Date;
+  // Earlier messages in every LINE conversation
+  history?: ConversationMessage[];
+};
+
+export type TestApp = {
+  app: Express;
+  openMeteo: OpenMeteoStandIn;
+  line: FakeLineClient;
+  subscriptions: SubscriptionsRepository;
+  models: {
+    agent: ScriptedModel;
+    planner: ScriptedModel;
+    intent: ScriptedModel;
+  };
+};
+
+// The whole app over fresh in-memory storage, with Open-Meteo, LINE and
+// the language models replaced by offline stand-ins. The models are
+// instrumented like the real ones so token usage shows up on /metrics.
+export function createTestApp(options: TestAppOptions = {}): TestApp {
+  const standIn = createOpenMeteoStandIn();
+  const line = createFakeLineClient();
+  const models = {
+    agent: createScriptedModel(options.agentTurns ?? []),
+    planner: createScriptedModel(options.plannerTurns ?? []),
+    intent: createScriptedModel(options.intentTurns ?? []),
+  };
+
+  const db = createDatabase(":memory:");
+  // Retries and circuit breaking as configured, minus the waiting
+  const upstreamFetch = createResilientFetch(standIn.fetch, {
+    ...config.upstream,
+    sleep: async () => {},
+  });
+  const openMeteo = createOpenMeteoClient({ fetch: upstreamFetch });
+  const tools = createWeatherTools({
+    openMeteo,
+    reverseGeocoder: createReverseGeocoder({ fetch: upstreamFetch }),
+  });
+
+  const cacheStore = createMemoryCacheStore();
+  const weather = createWeatherService({
+    agent: createWeatherAgent({ model: withTelemetry(models.agent), tools }),
+    openMeteo,
+    tools,
+    cache: createCache(cacheStore),
+    llmLimiter: createConcurrencyLimiter(4),
+  });
+
+  const workflowRuns = createWeatherWorkflowRuns({
+    runs: createWorkflowRunsRepository(db),
+    workflow: createWeatherWorkflow({
+      getForecast: tools.getForecast,
+      model: withTelemetry(models.planner),
+    }),
+  });
+
+  const subscriptions = createSubscriptionsRepository(db);
+  const sentAlerts = createSentAlertsRepository(db);
+  const preferences = createPreferencesRepository(db);
+
+  const push = async (
+    to: string,
+    messages: Parameters<FakeLineClient["pushMessage"]>[1]
+  ) => {
+    await line.pushMessage(to, messages);
+    return ok(undefined);
+  };
+
+  const unlimited = { capacity: 1000, refillPerMinute: 1000 };
+
+  const app = createApp({
+    weather,
+    workflowRuns,
+    briefingScheduler: createBriefingScheduler({
+      subscriptions,
+      sentAlerts,
+      runBriefing: (city) => workflowRuns.run({ city, days: 1 }),
+      push: (subscription, reply) =>
+        push(subscription.userId, renderWeatherMessages(reply)),
+      now: options.now,
+    }),
+    health: createHealthChecks({
+      checkConfig: () => loadConfig(process.env),
+      checkModels: () => checkModelCredentials(config.models, config.providers),
+      openMeteoUrls: [DEFAULT_GEOCODING_BASE_URL, DEFAULT_FORECAST_BASE_URL],
+      fetch: standIn.fetch,
+      db,
+      cacheStore,
+    }),
+    alertNotifier: createAlertNotifier({
+      subscriptions,
+      sentAlerts,
+      getForecast: tools.getForecast,
+      push: (userId, text) => push(userId, { type: "text", text }),
+    }),
+    handleLineEvent: createLineEventHandler({
+      client: line,
+      weather,
+      extractIntent: createIntentExtractor(withTelemetry(models.intent)),
+      conversations: {
+        hasConversation: async () => ok((options.history ?? []).length > 0),
+        recentMessages: async () => ok(options.history ?? []),
+        resetConversation: async () => ok(undefined),
+      },
+      preferences,
+      subscriptions,
+      rateLimiter: createTokenBucketLimiter(unlimited),
+      now: options.now,
+    }),
+    lineChannelSecret: TEST_CHANNEL_SECRET,
+    apiKeys: options.apiKeys ?? [],
+    httpRateLimiter: createTokenBucketLimiter(options.rateLimit ?? unlimited),
+    schedulerSecret: TEST_SCHEDULER_SECRET,
+  });
+
+  return { app, openMeteo: standIn, line, subscriptions, models };
+}
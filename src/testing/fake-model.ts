@@ -0,0 +1,91 @@
+import { MastraLanguageModel } from "@mastra/core/agent";
+import { LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+
+// One model response: call tools, answer with text, or fail
+export type ScriptedTurn =
+  | { toolCalls: { toolName: string; args: unknown }[] }
+  | { text: string }
+  | { error: Error };
+
+export type ScriptedModel = MastraLanguageModel & {
+  // Prompts and settings of every call, in order
+  calls: LanguageModelV1CallOptions[];
+};
+
+const usage = { promptTokens: 10, completionTokens: 20 };
+
+// Answers calls with the scripted turns in order, and fails loudly once
+// they run out so a test never depends on an unplanned model call
+export function createScriptedModel(turns: ScriptedTurn[]): ScriptedModel {
+  const remaining = [...turns];
+  const calls: LanguageModelV1CallOptions[] = [];
+
+  const next = (options: LanguageModelV1CallOptions) => {
+    calls.push(options);
+    const turn = remaining.shift();
+    if (!turn) {
+      throw new Error(`Fake model ran out of turns at call ${calls.length}`);
+    }
+    if ("error" in turn) {
+      throw turn.error;
+    }
+    return turn;
+  };
+
+  const toolCalls = (turn: ScriptedTurn) =>
+    "toolCalls" in turn
+      ? turn.toolCalls.map(({ toolName, args }, index) => ({
+          toolCallType: "function" as const,
+          toolCallId: `call-${calls.length}-${index}`,
+          toolName,
+          args: JSON.stringify(args),
+        }))
+      : [];
+
+  return {
+    specificationVersion: "v1",
+    provider: "fake",
+    modelId: "scripted",
+    defaultObjectGenerationMode: "json",
+    calls,
+
+    doGenerate: async (options) => {
+      const turn = next(options);
+      return {
+        text: "text" in turn ? turn.text : undefined,
+        toolCalls: toolCalls(turn),
+        finishReason: "toolCalls" in turn ? "tool-calls" : "stop",
+        usage,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    doStream: async (options) => {
+      const turn = next(options);
+      const parts: LanguageModelV1StreamPart[] = [
+        ...toolCalls(turn).map((call) => ({
+          type: "tool-call" as const,
+          ...call,
+        })),
+        ...("text" in turn
+          ? [{ type: "text-delta" as const, textDelta: turn.text }]
+          : []),
+        {
+          type: "finish",
+          finishReason: "toolCalls" in turn ? "tool-calls" : "stop",
+          usage,
+        },
+      ];
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { EventMessage, Message, MessageEvent } from "@line/bot-sdk";
+import { createHmac } from "node:crypto";
+import { LineClient } from "../line/handler.js";
+
+// The x-line-signature LINE sends: base64 HMAC-SHA256 of the raw body
+export function signLineBody(body: string, channelSecret: string): string {
+  return createHmac("sha256", channelSecret).update(body).digest("base64");
+}
+
+export function lineWebhookBody(events: MessageEvent[]): string {
+  return JSON.stringify({ destination: "Ubot", events });
+}
+
+let eventCount = 0;
+
+// A message event from a one-to-one chat with the given user
+export function messageEvent(
+  message:
+    | { type: "text"; text: string }
+    | {
+        type: "location";
+        latitude: number;
+        longitude: number;
+        title?: string;
+        address?: string;
+      },
+  userId = "Utest"
+): MessageEvent {
+  eventCount++;
+  return {
+    type: "message",
+    mode: "active",
+    timestamp: Date.now(),
+    source: { type: "user", userId },
+    webhookEventId: `01TESTEVENT${eventCount}`,
+    deliveryContext: { isRedelivery: false },
+    replyToken: `reply-token-${eventCount}`,
+    message: {
+      id: String(eventCount),
+      quoteToken: `quote-${eventCount}`,
+      ...message,
+    } as EventMessage,
+  };
+}
+
+export type FakeLineClient = LineClient & {
+  replies: { replyToken: string; messages: Message[] }[];
+  pushes: { to: string; messages: Message[] }[];
+};
+
+// Records what the bot would have sent instead of calling LINE
+export function createFakeLineClient(): FakeLineClient {
+  const replies: FakeLineClient["replies"] = [];
+  const pushes: FakeLineClient["pushes"] = [];
+  const toArray = (messages: Message | Message[]) =>
+    Array.isArray(messages) ? messages : [messages];
+
+  return {
+    replies,
+    pushes,
+    replyMessage: async (replyToken, messages) => {
+      replies.push({ replyToken, messages: toArray(messages) });
+      return {};
+    },
+    pushMessage: async (to, messages) => {
+      pushes.push({ to, messages: toArray(messages) });
+      return {};
+    },
+  };
+}
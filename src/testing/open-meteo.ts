@@ -0,0 +1,82 @@
+import { readFileSync } from "node:fs";
+
+// Responses recorded from the real APIs, trimmed to a few places
+function fixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      new URL(`./fixtures/open-meteo/${name}.json`, import.meta.url),
+      "utf8"
+    )
+  );
+}
+
+const geocoding: Record<string, unknown> = {
+  tokyo: fixture("geocoding-tokyo"),
+  東京: fixture("geocoding-tokyo"),
+  springfield: fixture("geocoding-springfield"),
+};
+
+export type OpenMeteoStandIn = {
+  fetch: typeof fetch;
+  // Every URL requested so far, in order
+  requests: URL[];
+  // Answer every following request with this status instead of a fixture
+  failWith: (status: number | undefined) => void;
+};
+
+// Serves Open-Meteo and Nominatim requests from the recorded fixtures.
+// Unknown places geocode to no results, like the real API.
+export function createOpenMeteoStandIn(): OpenMeteoStandIn {
+  const requests: URL[] = [];
+  let failure: number | undefined;
+
+  const json = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const respond = (url: URL): Response => {
+    if (failure !== undefined) {
+      return new Response("Service unavailable", { status: failure });
+    }
+
+    switch (url.pathname) {
+      case "/v1/search": {
+        const name = url.searchParams.get("name")?.toLowerCase() ?? "";
+        return json(geocoding[name] ?? fixture("geocoding-empty"));
+      }
+      case "/v1/forecast": {
+        if (url.searchParams.has("current")) {
+          return json(fixture("forecast-current"));
+        }
+        const recorded = fixture("forecast-daily") as {
+          daily: Record<string, unknown[]>;
+        };
+        const days = Number(url.searchParams.get("forecast_days") ?? 7);
+        const daily = Object.fromEntries(
+          Object.entries(recorded.daily).map(([field, values]) => [
+            field,
+            values.slice(0, days),
+          ])
+        );
+        return json({ ...recorded, daily });
+      }
+      case "/reverse":
+        return json(fixture("nominatim-reverse"));
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  };
+
+  return {
+    requests,
+    failWith: (status) => {
+      failure = status;
+    },
+    fetch: (async (input: string | URL | Request) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      requests.push(url);
+      return respond(url);
+    }) as typeof fetch,
+  };
+}
@@ -0,0 +1,41 @@
+import { ActivityPlan } from "../domain/activity-plan.js";
+
+// A plan as the model would write it for the recorded Tokyo forecast
+export const tokyoPlan: ActivityPlan = {
+  location: "Tokyo, Japan",
+  days: [
+    {
+      date: "2025-06-14",
+      weatherSummary: {
+        conditions: "Partly cloudy",
+        temperature: 27.1,
+        temperatureLow: 19.6,
+        precipitationChance: 10,
+      },
+      morningActivities: [
+        {
+          name: "Walk in Yoyogi Park",
+          description: "Loop from Harajuku gate past the fountain",
+          timing: "07:00-09:00",
+          note: "Cooler before the midday heat",
+        },
+      ],
+      afternoonActivities: [
+        {
+          name: "Sumida River cruise",
+          description: "Asakusa to Hama-rikyu Gardens",
+          timing: "15:00-17:00",
+          note: "Light breeze on the water",
+        },
+      ],
+      indoorAlternatives: [
+        {
+          name: "Tokyo National Museum",
+          description: "Ueno Park galleries",
+          idealFor: "Sudden showers",
+        },
+      ],
+      specialConsiderations: ["UV index 7.4: wear sunscreen"],
+    },
+  ],
+};
@@ -0,0 +1,9 @@
+// Preloaded by `bun test` (see bunfig.toml) before any module reads the
+// config, so the suite runs offline without a .env file
+process.env.LINE_CHANNEL_SECRET = "test-channel-secret";
+process.env.LINE_CHANNEL_ACCESS_TOKEN = "test-channel-access-token";
+process.env.GOOGLE_GENERATIVE_AI_API_KEY = "test-google-api-key";
+process.env.MASTRA_DB_URL = ":memory:";
+process.env.APP_DB_URL = ":memory:";
+process.env.CACHE_STORE = "memory";
+process.env.LOG_LEVEL = "warn";
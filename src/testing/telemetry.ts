@@ -0,0 +1,30 @@
+import {
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { registerTracing } from "../infrastructure/telemetry.js";
+
+// The global tracer provider can only be registered once per process, so
+// every test file shares this exporter
+const exporter = new InMemorySpanExporter();
+registerTracing("weather-agent-test", [new SimpleSpanProcessor(exporter)]);
+
+export function finishedSpans(): ReadableSpan[] {
+  return exporter.getFinishedSpans();
+}
+
+export function resetSpans() {
+  exporter.reset();
+}
+
+// Every span of the trace the named span belongs to
+export function traceOf(name: string): ReadableSpan[] {
+  const root = finishedSpans().find((span) => span.name === name);
+  if (!root) {
+    throw new Error(`No span named "${name}"`);
+  }
+  return finishedSpans().filter(
+    (span) => span.spanContext().traceId === root.spanContext().traceId
+  );
+}
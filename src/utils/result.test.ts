@@ -0,0 +1,213 @@
+import { describe, expect, it, mock } from "bun:test";
+import {
+  NotFoundError,
+  Result,
+  ValidationError,
+  all,
+  chain,
+  chainResult,
+  combine,
+  err,
+  errors,
+  fromThrowable,
+  match,
+  ok,
+  toMastraError,
+} from "./result.js";
+
+function parsePositive(text: string): Result<number, ValidationError> {
+  const value = Number(text);
+  return value > 0
+    ? ok(value)
+    : err(errors.validation(`'${text}' is not a positive number`));
+}
+
+async function findDoubled(
+  value: number
+): Promise<Result<number, NotFoundError>> {
+  return value < 100 ? ok(value * 2) : err(errors.notFound("number"));
+}
+
+describe("chain", () => {
+  it("runs each step on the previous value", async () => {
+    const result = await chain("21")
+      .andThen(parsePositive)
+      .asyncAndThen(findDoubled)
+      .map(String)
+      .toResult();
+
+    expect(result).toEqual(ok("42"));
+  });
+
+  it("skips the remaining steps after an error", async () => {
+    const steps: string[] = [];
+
+    const result = await chain("-1")
+      .andThen(parsePositive)
+      .tap(() => {
+        steps.push("tap");
+      })
+      .asyncAndThen(findDoubled)
+      .toResult();
+
+    expect(result).toEqual(
+      err(errors.validation("'-1' is not a positive number"))
+    );
+    expect(steps).toEqual([]);
+  });
+
+  it("collects every step's error type", async () => {
+    const result = await chain("500")
+      .andThen(parsePositive)
+      .asyncAndThen(findDoubled)
+      .toResult();
+
+    // Compiles only if the union holds both error kinds
+    const error: ValidationError | NotFoundError | undefined =
+      result.kind === "err" ? result.error : undefined;
+    expect(error?.kind).toBe("not-found");
+  });
+
+  it("waits for async side effects in tap", async () => {
+    const seen: number[] = [];
+
+    const result = await chain(1)
+      .tap(async (value) => {
+        await Bun.sleep(1);
+        seen.push(value);
+      })
+      .map((value) => value + 1)
+      .toResult();
+
+    expect(seen).toEqual([1]);
+    expect(result).toEqual(ok(2));
+  });
+
+  it("maps errors without touching values", async () => {
+    const failed = await chain("x")
+      .andThen(parsePositive)
+      .mapErr((error) => error.message.toUpperCase())
+      .toResult();
+    const passed = await chain("3")
+      .andThen(parsePositive)
+      .mapErr((error) => error.message.toUpperCase())
+      .toResult();
+
+    expect(failed).toEqual(err("'X' IS NOT A POSITIVE NUMBER"));
+    expect(passed).toEqual(ok(3));
+  });
+
+  it("traces progress at debug level", async () => {
+    const log = { debug: mock() };
+
+    await chain("x")
+      .trace("parsing", log)
+      .andThen(parsePositive)
+      .trace("parsed", log)
+      .toResult();
+
+    expect(log.debug.mock.calls).toEqual([
+      ["parsing"],
+      [
+        "parsed (skipped after error)",
+        { err: errors.validation("'x' is not a positive number") },
+      ],
+    ]);
+  });
+
+  it("starts from an existing result", async () => {
+    const result = await chainResult(Promise.resolve(parsePositive("5")))
+      .asyncAndThen(findDoubled)
+      .toResult();
+
+    expect(result).toEqual(ok(10));
+  });
+});
+
+describe("combine", () => {
+  it("collects the values of a tuple in order", () => {
+    const result = combine([ok(1), ok("two"), parsePositive("3")]);
+
+    // The tuple types survive
+    const values: [number, string, number] | undefined =
+      result.kind === "ok" ? result.value : undefined;
+    expect(values).toEqual([1, "two", 3]);
+  });
+
+  it("returns the first error", () => {
+    const result = combine([
+      ok(1),
+      parsePositive("no"),
+      err(errors.notFound("later")),
+    ]);
+
+    expect(result).toEqual(
+      err(errors.validation("'no' is not a positive number"))
+    );
+  });
+
+  it("handles arrays of unknown length", () => {
+    const result = combine(["1", "2", "3"].map(parsePositive));
+
+    expect(result).toEqual(ok([1, 2, 3]));
+  });
+});
+
+describe("all", () => {
+  it("awaits every result at once", async () => {
+    const result = await all([findDoubled(1), findDoubled(2)]);
+
+    expect(result).toEqual(ok([2, 4]));
+  });
+
+  it("returns the first error in order", async () => {
+    const result = await all([findDoubled(1), findDoubled(200)]);
+
+    expect(result).toEqual(err(errors.notFound("number")));
+  });
+});
+
+describe("fromThrowable", () => {
+  const parseJson = fromThrowable(
+    (text: string): unknown => JSON.parse(text),
+    () => errors.validation("Invalid JSON")
+  );
+
+  it("returns the value when nothing is thrown", () => {
+    expect(parseJson('{"a":1}')).toEqual(ok({ a: 1 }));
+  });
+
+  it("maps what was thrown to an error", () => {
+    expect(parseJson("{")).toEqual(err(errors.validation("Invalid JSON")));
+  });
+});
+
+describe("match", () => {
+  it("calls the handler for the result's side", () => {
+    const describe = (result: Result<number, ValidationError>) =>
+      match(result, {
+        ok: (value) => `got ${value}`,
+        err: (error) => error.message,
+      });
+
+    expect(describe(parsePositive("7"))).toBe("got 7");
+    expect(describe(parsePositive("x"))).toBe("'x' is not a positive number");
+  });
+});
+
+describe("toMastraError", () => {
+  it("keeps the typed error as the cause", () => {
+    const error = errors.notFound("location", "Atlantis");
+
+    const thrown = toMastraError(error);
+
+    expect(thrown.message).toBe("location 'Atlantis' not found");
+    expect(thrown.cause).toBe(error);
+  });
+
+  it("accepts a message written for the model", () => {
+    const thrown = toMastraError(errors.validation("Bad"), "Ask again");
+
+    expect(thrown.message).toBe("Ask again");
+  });
+});
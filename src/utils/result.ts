@@ -96,11 +96,73 @@ export type WeatherAPIError = {
   readonly statusCode?: number;
 };
 
+export type LocationCandidate = {
+  readonly name: string;
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly admin1?: string;
+  readonly country?: string;
+  readonly countryCode?: string;
+  readonly population?: number;
+  // IANA name, e.g. "Asia/Tokyo"
+  readonly timezone?: string;
+};
+
+export type AmbiguousLocationError = {
+  readonly kind: "ambiguous-location";
+  readonly message: string;
+  readonly query: string;
+  readonly candidates: readonly LocationCandidate[];
+};
+
+export type UnauthorizedError = {
+  readonly kind: "unauthorized";
+  readonly message: string;
+  // Set when the caller is known but lacks this permission
+  readonly scope?: string;
+};
+
+export type UpstreamTimeoutError = {
+  readonly kind: "upstream-timeout";
+  readonly message: string;
+  // The API that didn't answer in time, e.g. "forecast"
+  readonly service: string;
+};
+
+// A circuit breaker stopped the call before it was made
+export type UpstreamUnavailableError = {
+  readonly kind: "upstream-unavailable";
+  readonly message: string;
+  // The API whose recent calls failed, e.g. "forecast"
+  readonly service: string;
+  readonly retryAfterMs?: number;
+};
+
+export type RateLimitedError = {
+  readonly kind: "rate-limited";
+  readonly message: string;
+  readonly retryAfterMs?: number;
+};
+
+export type LLMError = {
+  readonly kind: "llm-failure";
+  readonly message: string;
+  // The model answered but gave nothing usable, as opposed to a failed call
+  readonly refused: boolean;
+  readonly cause?: unknown;
+};
+
 export type AppError =
   | ValidationError
   | NotFoundError
   | InfrastructureError
-  | WeatherAPIError;
+  | WeatherAPIError
+  | AmbiguousLocationError
+  | UnauthorizedError
+  | UpstreamTimeoutError
+  | UpstreamUnavailableError
+  | RateLimitedError
+  | LLMError;
 
 // Error constructors
 export const errors = {
@@ -125,6 +187,50 @@ export const errors = {
     message,
     statusCode,
   }),
+  ambiguousLocation: (
+    query: string,
+    candidates: readonly LocationCandidate[]
+  ): AmbiguousLocationError => ({
+    kind: "ambiguous-location",
+    message: `'${query}' matches several places`,
+    query,
+    candidates,
+  }),
+  unauthorized: (message: string, scope?: string): UnauthorizedError => ({
+    kind: "unauthorized",
+    message,
+    scope,
+  }),
+  upstreamTimeout: (service: string): UpstreamTimeoutError => ({
+    kind: "upstream-timeout",
+    message: `${service} request timed out`,
+    service,
+  }),
+  upstreamUnavailable: (
+    service: string,
+    retryAfterMs?: number
+  ): UpstreamUnavailableError => ({
+    kind: "upstream-unavailable",
+    message: `${service} is unavailable after repeated failures`,
+    service,
+    retryAfterMs,
+  }),
+  rateLimited: (message: string, retryAfterMs?: number): RateLimitedError => ({
+    kind: "rate-limited",
+    message,
+    retryAfterMs,
+  }),
+  llm: (message: string, cause?: unknown): LLMError => ({
+    kind: "llm-failure",
+    message,
+    refused: false,
+    cause,
+  }),
+  llmRefused: (message: string): LLMError => ({
+    kind: "llm-failure",
+    message,
+    refused: true,
+  }),
 };
 
 // Utility functions
@@ -158,5 +264,139 @@ export function unwrapErr<T, E>(result: Result<T, E>): E {
   throw new Error("Called unwrapErr on Ok value");
 }
 
-// Note: Chain pattern is omitted to avoid complex type recursion issues.
-// Use the basic Result functions (isOk, isErr, unwrap, etc.) for error handling.
+export function match<T, E, A, B = A>(
+  result: Result<T, E>,
+  handlers: { ok: (value: T) => A; err: (error: E) => B }
+): A | B {
+  if (isOk(result)) {
+    return handlers.ok(result.value);
+  }
+  return handlers.err(result.error);
+}
+
+// Wrap a function that may throw, e.g. JSON.parse, so it returns a Result
+export function fromThrowable<A extends unknown[], T, E>(
+  fn: (...args: A) => T,
+  mapError: (error: unknown) => E
+): (...args: A) => Result<T, E> {
+  return (...args) => {
+    try {
+      return ok(fn(...args));
+    } catch (error) {
+      return err(mapError(error));
+    }
+  };
+}
+
+type OkValue<R> = R extends Ok<infer T> ? T : never;
+type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+// All values in order, or the first error
+export function combine<R extends readonly Result<unknown, unknown>[]>(
+  results: readonly [...R]
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (isErr(result)) {
+      return result as Err<ErrValue<R[number]>>;
+    }
+    values.push(result.value);
+  }
+  return ok(values as { -readonly [K in keyof R]: OkValue<R[K]> });
+}
+
+// combine for results still being computed; they all run at once
+export async function all<
+  P extends readonly Promise<Result<unknown, unknown>>[],
+>(
+  promises: readonly [...P]
+): Promise<
+  Result<
+    { -readonly [K in keyof P]: OkValue<Awaited<P[K]>> },
+    ErrValue<Awaited<P[number]>>
+  >
+> {
+  const results = await Promise.all(promises);
+  return combine(results) as Result<
+    { -readonly [K in keyof P]: OkValue<Awaited<P[K]>> },
+    ErrValue<Awaited<P[number]>>
+  >;
+}
+
+// What trace() needs from a logger; callers pass the shared logger or a
+// request-scoped one. Declared here so this module stays free of
+// infrastructure imports.
+export type TraceLogger = {
+  debug: (message: string, args?: Record<string, unknown>) => void;
+};
+
+// Railway-style pipeline over Results. Steps run in order and are skipped
+// once one fails; each step's error type joins the chain's error union.
+export type Chain<T, E> = {
+  andThen: <U, F = E>(fn: (value: T) => Result<U, F>) => Chain<U, E | F>;
+  asyncAndThen: <U, F = E>(
+    fn: (value: T) => Promise<Result<U, F>>
+  ) => Chain<U, E | F>;
+  map: <U>(fn: (value: T) => U) => Chain<U, E>;
+  // Side effects such as logging; the value passes through unchanged
+  tap: (fn: (value: T) => void | Promise<void>) => Chain<T, E>;
+  mapErr: <F>(fn: (error: E) => F) => Chain<T, F>;
+  // Logs at debug level whether the chain got this far
+  trace: (message: string, log: TraceLogger) => Chain<T, E>;
+  toResult: () => Promise<Result<T, E>>;
+};
+
+function chainFrom<T, E>(pending: Promise<Result<T, E>>): Chain<T, E> {
+  const next = <U, F>(
+    step: (result: Result<T, E>) => Result<U, F> | Promise<Result<U, F>>
+  ): Chain<U, F> => chainFrom(pending.then(step));
+
+  return {
+    andThen: <U, F>(fn: (value: T) => Result<U, F>) =>
+      next<U, E | F>((result) => (isOk(result) ? fn(result.value) : result)),
+    asyncAndThen: <U, F>(fn: (value: T) => Promise<Result<U, F>>) =>
+      next<U, E | F>(async (result) =>
+        isOk(result) ? fn(result.value) : result
+      ),
+    map: (fn) => next((result) => map(result, fn)),
+    tap: (fn) =>
+      next(async (result) => {
+        if (isOk(result)) {
+          await fn(result.value);
+        }
+        return result;
+      }),
+    mapErr: (fn) => next((result) => mapErr(result, fn)),
+    trace: (message, log) =>
+      next((result) => {
+        if (isOk(result)) {
+          log.debug(message);
+        } else {
+          log.debug(`${message} (skipped after error)`, { err: result.error });
+        }
+        return result;
+      }),
+    toResult: () => pending,
+  };
+}
+
+// Start a chain from a plain value, or from a Result (or a promise of one)
+// that was computed elsewhere
+export function chain<T, E = never>(input: T): Chain<T, E> {
+  return chainFrom(Promise.resolve(ok(input)));
+}
+
+export function chainResult<T, E>(
+  result: Result<T, E> | Promise<Result<T, E>>
+): Chain<T, E> {
+  return chainFrom(Promise.resolve(result));
+}
+
+// Mastra tools and workflow steps report failure by throwing. The typed
+// error rides along as the cause for anything that inspects it.
+export function toMastraError(
+  error: AppError,
+  message: string = error.message
+): Error {
+  return new Error(message, { cause: error });
+}